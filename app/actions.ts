@@ -1,10 +1,47 @@
 "use client"
 
-import { loadModel, preprocessImage, classifyImage as runInference } from "../lib/model"
-import { IMAGENET_CLASSES, getImageNetSuperclass } from "../lib/imagenet-classes"
-import { generatePreprocessingSteps } from "../lib/image-processing"
+import { decodeImageBlob, fetchImage } from "../lib/image-processing"
+import { decodeAnimation } from "../lib/animated-image"
+import { DEFAULT_MODEL_ID, getModelDescriptor } from "../lib/model-registry"
+import { classifyFramesInWorker, classifyInWorker } from "../lib/inference-client"
+import type { WorkerPrediction } from "../lib/inference-protocol"
+import { ModelError, ModelLoadError, detectErrorKind } from "../lib/errors"
+import type { LoadProgressCallback } from "../lib/load-progress"
+import type { BackendPreference } from "../lib/backend-info"
+import type { PreprocessingStep } from "../lib/preprocessing"
+import type { TtaSettings } from "../lib/augmentation"
+import type { TilingSettings } from "../lib/tiling"
+import type { HedgingSettings } from "../lib/hedging"
 
-export async function classifyImage(imageUrl: string, modelId = "mobilenet") {
+export type ClassifyOptions = {
+  // Use the fake demo model instead of loading the real one
+  demoMode?: boolean
+  // Byte budget for offline model storage
+  storageBudgetBytes?: number
+  // Byte budget for models kept in memory
+  memoryBudgetBytes?: number
+  // Staged model download progress
+  onProgress?: LoadProgressCallback
+  // Cancels a model load that is still in progress
+  signal?: AbortSignal
+  // TensorFlow.js backend override
+  backend?: BackendPreference
+  // Calibration temperature for this model
+  temperature?: number
+  // Replaces the model's registered preprocessing pipeline
+  preprocessing?: PreprocessingStep[]
+  // Test-time augmentation views and how to combine them
+  tta?: TtaSettings
+  // Sliding-window classification at the given scales, alongside the whole-image result
+  tiling?: TilingSettings
+  // Number of predictions returned, and the probability required of all but the first
+  topK?: number
+  minProbability?: number
+  // Also return the most specific class or hypernym that reaches a confidence target
+  hedging?: HedgingSettings
+}
+
+export async function classifyImage(imageUrl: string, modelId = DEFAULT_MODEL_ID, options: ClassifyOptions = {}) {
   try {
     if (!imageUrl) {
       return { error: "No image provided" }
@@ -12,59 +49,105 @@ export async function classifyImage(imageUrl: string, modelId = "mobilenet") {
 
     console.log(`Starting classification with ${modelId}...`)
 
-    // Generate preprocessing steps visualization
-    const preprocessingSteps = await generatePreprocessingSteps(imageUrl, modelId)
-
-    try {
-      // Load model
-      const model = await loadModel(modelId)
+    const descriptor = getModelDescriptor(modelId)
+    if (!descriptor) {
+      throw new ModelLoadError(`Unknown model: ${modelId}`, "format", modelId)
+    }
 
-      // Preprocess image
-      const tensor = await preprocessImage(imageUrl, modelId)
+    // Model loading, preprocessing and inference run in the inference worker, which also
+    // substitutes the explicitly requested demo model when demo mode is on
+    const workerOptions = {
+      demoMode: options.demoMode,
+      storageBudgetBytes: options.storageBudgetBytes,
+      memoryBudgetBytes: options.memoryBudgetBytes,
+      backend: options.backend,
+      temperature: options.temperature,
+      preprocessing: options.preprocessing,
+      tta: options.tta,
+      tiling: options.tiling,
+      topK: options.topK,
+      minProbability: options.minProbability,
+      hedging: options.hedging,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    }
 
-      // Run inference
-      const predictions = await runInference(model, tensor, modelId)
+    // Animated GIFs and WebPs are classified frame by frame; everything else is a single image
+    const blob = await fetchImage(imageUrl)
+    const animation = await decodeAnimation(blob)
+    const {
+      predictions,
+      isDemo,
+      backend,
+      processed,
+      input,
+      preprocessing,
+      frames,
+      tta,
+      quality,
+      tiles,
+      distribution,
+      classNames,
+      hedged,
+    } = animation
+      ? await classifyFramesInWorker(animation.frames.map((frame) => frame.bitmap), descriptor, workerOptions)
+      : await classifyInWorker(await decodeImageBlob(blob), descriptor, workerOptions)
 
-      // Format results - all models use ImageNet classes
-      const results = predictions.map((pred) => {
-        const classIndex = pred.classIndex
-        const className = IMAGENET_CLASSES[classIndex] || `Class ${classIndex}`
-        const superclass = getImageNetSuperclass(classIndex)
+    // Format results with the labels the model declared
+    const results = formatPredictions(predictions)
 
-        return {
-          className,
-          superclass,
-          probability: pred.probability,
-        }
-      })
+    // Per-frame results for the timeline; `results` then aggregates all frames
+    const timeline = animation && {
+      frameCount: animation.frameCount,
+      frames: animation.frames.map(({ index, timestamp, duration }, i) => ({
+        index,
+        timestamp,
+        duration,
+        results: formatPredictions(frames?.[i] || []),
+      })),
+    }
 
-      console.log(`Classification complete for ${modelId}:`, results[0])
+    console.log(`Classification complete for ${modelId}:`, results[0])
 
-      return { results, preprocessingSteps, modelId }
-    } catch (error) {
-      console.error("Model error:", error)
+    // The visualization renders the tensors the model actually received and the pipeline that made them
+    const preprocessingSteps = { original: imageUrl, processed, input, pipeline: preprocessing }
 
-      // Return mock data if model fails
-      return {
-        results: getMockResults(),
-        preprocessingSteps,
-        modelId,
-        isMock: true,
-      }
+    return {
+      results,
+      timeline,
+      tta,
+      // Kept with the result so low-quality inputs can be told apart later
+      quality,
+      tiles,
+      distribution: { probabilities: distribution, classNames },
+      hedged,
+      preprocessingSteps,
+      modelId,
+      isDemo,
+      backend,
+      temperature: options.temperature ?? 1,
+      minProbability: options.minProbability ?? 0,
     }
   } catch (error) {
     console.error("Classification error:", error)
-    return { error: "Failed to classify image", modelId }
+
+    if (error instanceof ModelError) {
+      return { error: error.message, errorKind: error.kind, errorStage: error.stage, modelId }
+    }
+
+    return {
+      error: error instanceof Error ? error.message : "Failed to classify image",
+      errorKind: detectErrorKind(error),
+      modelId,
+    }
   }
 }
 
-// Generate mock results when model loading fails
-function getMockResults() {
-  return [
-    { className: "golden retriever", superclass: "mammals", probability: 0.75 },
-    { className: "Labrador retriever", superclass: "mammals", probability: 0.15 },
-    { className: "German shepherd", superclass: "mammals", probability: 0.05 },
-    { className: "beagle", superclass: "mammals", probability: 0.03 },
-    { className: "husky", superclass: "mammals", probability: 0.02 },
-  ]
+function formatPredictions(predictions: WorkerPrediction[]) {
+  return predictions.map(({ className, superclass, path, probability }) => ({
+    className,
+    superclass,
+    path,
+    probability,
+  }))
 }
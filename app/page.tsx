@@ -1,6 +1,11 @@
 
 import { ImageUploader } from "../components/image-uploader"
 import { ResultsDisplay } from "../components/results-display"
+import { SettingsPanel } from "../components/settings-panel"
+import { ModelStorageManager } from "../components/model-storage-manager"
+import { TensorMonitor } from "../components/tensor-monitor"
+import { CalibrationTool } from "../components/calibration-tool"
+import { PreprocessingSettings } from "../components/preprocessing-settings"
 
 export default function Home() {
   return (
@@ -19,6 +24,11 @@ export default function Home() {
         <div className="grid gap-8 lg:grid-cols-2">
           <div className="space-y-6">
             <ImageUploader />
+            <SettingsPanel />
+            <ModelStorageManager />
+            <CalibrationTool />
+            <PreprocessingSettings />
+            <TensorMonitor />
           </div>
 
           <div className="space-y-6">
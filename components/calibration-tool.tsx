@@ -0,0 +1,275 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { FolderOpen, Images, Thermometer, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Label } from "./ui/label"
+import { Progress } from "./ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { useToast } from "../hooks/use-toast"
+import { useSettings } from "../hooks/use-settings"
+import { useModelRegistry } from "../hooks/use-model-registry"
+import { DEFAULT_MODEL_ID, getModelDescriptor } from "../lib/model-registry"
+import { type CalibrationResult, labelFromFile } from "../lib/calibration"
+import { calibrateInWorker } from "../lib/inference-client"
+import { decodeImageBlobToCover } from "../lib/image-processing"
+import { InferenceError, ModelError } from "../lib/errors"
+import { type LoadProgress, describeLoadProgress } from "../lib/load-progress"
+
+// Larger sets barely change the fitted temperature but take much longer to run
+const MAX_IMAGES = 200
+// Images are shrunk to this multiple of the model input before being sent to the worker; preprocessing
+// still crops and resizes them as usual, but 200 full-size photos no longer sit in memory at once
+const DECODE_SCALE = 2
+
+export function CalibrationTool() {
+  const models = useModelRegistry()
+  const { settings, updateSettings } = useSettings()
+  const [modelId, setModelId] = useState(DEFAULT_MODEL_ID)
+  const [files, setFiles] = useState<File[]>([])
+  const [result, setResult] = useState<CalibrationResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [decodedCount, setDecodedCount] = useState(0)
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
+  // Selected files that aren't decodable images, reported with the result
+  const [undecodable, setUndecodable] = useState<string[]>([])
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const filesInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const currentTemperature = settings.temperatures[modelId] ?? 1
+
+  const selectFiles = (fileList: FileList | null) => {
+    const images = Array.from(fileList || []).filter((file) => file.type.startsWith("image/"))
+    setFiles(images.slice(0, MAX_IMAGES))
+    setResult(null)
+    setUndecodable([])
+  }
+
+  const handleCalibrate = async () => {
+    const descriptor = getModelDescriptor(modelId)
+    if (!descriptor) return
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const [inputHeight, inputWidth] = descriptor.inputShape
+    const images: ImageBitmap[] = []
+    const labels: string[] = []
+    const skipped: string[] = []
+
+    try {
+      setIsRunning(true)
+      setResult(null)
+      setDecodedCount(0)
+
+      // One at a time, so only a single full-size bitmap exists before it is shrunk
+      for (const file of files) {
+        if (abortController.signal.aborted) {
+          throw new InferenceError(`Calibrating ${descriptor.id} was cancelled`, "cancelled", descriptor.id)
+        }
+        try {
+          images.push(await decodeImageBlobToCover(file, inputWidth * DECODE_SCALE, inputHeight * DECODE_SCALE))
+          labels.push(labelFromFile(file))
+        } catch (error) {
+          console.warn(`Skipping ${file.name}, which could not be decoded:`, error)
+          skipped.push(file.webkitRelativePath || file.name)
+        }
+        setDecodedCount((count) => count + 1)
+      }
+      setUndecodable(skipped)
+
+      if (images.length === 0) {
+        throw new InferenceError("None of the selected files could be decoded as images", "format", descriptor.id)
+      }
+
+      setResult(
+        await calibrateInWorker(images, labels, descriptor, {
+          storageBudgetBytes: settings.storageBudgetMB * 1024 * 1024,
+          memoryBudgetBytes: settings.memoryBudgetMB * 1024 * 1024,
+          backend: settings.backend,
+          preprocessing: settings.preprocessingOverrides[modelId],
+          onProgress: setLoadProgress,
+          signal: abortController.signal,
+        }),
+      )
+    } catch (error) {
+      const cancelled = error instanceof ModelError && error.kind === "cancelled"
+      if (!cancelled) {
+        console.error("Calibration failed:", error)
+      }
+      toast({
+        title: cancelled ? "Calibration cancelled" : "Calibration failed",
+        description: error instanceof Error ? error.message : "The images could not be used for calibration",
+        variant: "destructive",
+      })
+    } finally {
+      // Bitmaps transferred to the worker are closed there; this only frees ones that never got sent
+      images.forEach((image) => image.close())
+      abortControllerRef.current = null
+      setLoadProgress(null)
+      setIsRunning(false)
+    }
+  }
+
+  const setTemperature = (temperature: number | null) => {
+    const { [modelId]: _, ...others } = settings.temperatures
+    updateSettings({ temperatures: temperature === null ? others : { ...others, [modelId]: temperature } })
+  }
+
+  const unmatched = result ? Object.entries(result.unmatchedLabels) : []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Thermometer className="h-5 w-5" />
+          Confidence Calibration
+        </CardTitle>
+        <CardDescription>
+          Fit a temperature from your own labeled images so confidence percentages match how often the model is
+          right. Label images with folders named after classes (e.g. tabby/1.jpg) or file names (tabby-1.jpg).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-4">
+          <div className="flex-1 space-y-1">
+            <Label>Model</Label>
+            <Select
+              value={modelId}
+              onValueChange={(value) => {
+                setModelId(value)
+                setResult(null)
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-sm text-muted-foreground pb-2">T = {currentTemperature.toFixed(2)}</div>
+        </div>
+
+        <input
+          type="file"
+          ref={folderInputRef}
+          className="hidden"
+          multiple
+          {...{ webkitdirectory: "" }}
+          onChange={(e) => {
+            selectFiles(e.target.files)
+            e.target.value = ""
+          }}
+        />
+        <input
+          type="file"
+          ref={filesInputRef}
+          className="hidden"
+          multiple
+          accept="image/*"
+          onChange={(e) => {
+            selectFiles(e.target.files)
+            e.target.value = ""
+          }}
+        />
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => folderInputRef.current?.click()}>
+            <FolderOpen className="h-4 w-4 mr-2" />
+            Choose folder
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={() => filesInputRef.current?.click()}>
+            <Images className="h-4 w-4 mr-2" />
+            Choose images
+          </Button>
+        </div>
+
+        {files.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {files.length} images selected{files.length === MAX_IMAGES && ` (limited to ${MAX_IMAGES})`}
+          </p>
+        )}
+
+        <Button className="w-full" disabled={files.length === 0 || isRunning} onClick={handleCalibrate}>
+          {!isRunning
+            ? "Fit temperature"
+            : loadProgress
+              ? describeLoadProgress(loadProgress)
+              : decodedCount < files.length
+                ? `Decoding images (${decodedCount} / ${files.length})`
+                : "Calibrating..."}
+        </Button>
+
+        {isRunning && (
+          <div className="flex items-center gap-3">
+            <Progress
+              value={(loadProgress ? loadProgress.fraction : decodedCount / files.length) * 100}
+              className="h-2 flex-1"
+            />
+            <Button variant="outline" size="sm" onClick={() => abortControllerRef.current?.abort()}>
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {undecodable.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Skipped files that could not be decoded: {undecodable.join(", ")}
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-2 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <span className="text-muted-foreground">Fitted temperature</span>
+              <span className="font-medium">{result.temperature.toFixed(2)}</span>
+              <span className="text-muted-foreground">Images used</span>
+              <span>{result.sampleCount}</span>
+              <span className="text-muted-foreground">Top-1 accuracy</span>
+              <span>{(result.accuracy * 100).toFixed(1)}%</span>
+              <span className="text-muted-foreground">Mean confidence</span>
+              <span>
+                {(result.confidenceBefore * 100).toFixed(1)}% → {(result.confidenceAfter * 100).toFixed(1)}%
+              </span>
+              <span className="text-muted-foreground">Log loss</span>
+              <span>
+                {result.nllBefore.toFixed(3)} → {result.nllAfter.toFixed(3)}
+              </span>
+            </div>
+
+            {unmatched.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Skipped labels that match no class: {unmatched.map(([label, count]) => `${label} (${count})`).join(", ")}
+              </p>
+            )}
+
+            {result.sampleCount < 20 && (
+              <p className="text-xs text-amber-600">
+                Fewer than 20 images were used; the temperature may not generalize.
+              </p>
+            )}
+
+            <Button className="w-full" variant="secondary" onClick={() => setTemperature(result.temperature)}>
+              Use T = {result.temperature.toFixed(2)} for {getModelDescriptor(modelId)?.name || modelId}
+            </Button>
+          </div>
+        )}
+
+        {currentTemperature !== 1 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => setTemperature(null)}>
+            Reset to uncalibrated (T = 1)
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
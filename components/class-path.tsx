@@ -0,0 +1,69 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import {
+  Breadcrumb,
+  BreadcrumbEllipsis,
+  BreadcrumbItem,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "./ui/breadcrumb"
+
+type ClassPathProps = {
+  // Hypernyms from the most general down to the class's direct parent
+  path: string[]
+  className: string
+}
+
+// Hypernyms kept on each side of the ellipsis while a long path is collapsed
+const COLLAPSED_HEAD = 1
+const COLLAPSED_TAIL = 3
+
+// Breadcrumb of a class's place in the label hierarchy, e.g. entity › … › retriever › golden retriever
+export function ClassPath({ path, className }: ClassPathProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  useEffect(() => setExpanded(false), [path])
+
+  const collapsible = path.length > COLLAPSED_HEAD + COLLAPSED_TAIL + 1
+  const head = collapsible && !expanded ? path.slice(0, COLLAPSED_HEAD) : path
+  const tail = collapsible && !expanded ? path.slice(-COLLAPSED_TAIL) : []
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList className="gap-1 text-xs sm:gap-1.5">
+        {head.map((name) => (
+          <Fragment key={name}>
+            <BreadcrumbItem>{name}</BreadcrumbItem>
+            <BreadcrumbSeparator />
+          </Fragment>
+        ))}
+        {tail.length > 0 && (
+          <>
+            <BreadcrumbItem>
+              <button
+                type="button"
+                onClick={() => setExpanded(true)}
+                className="hover:text-foreground"
+                aria-label={`Show ${path.length - head.length - tail.length} more levels`}
+              >
+                <BreadcrumbEllipsis className="h-4 w-4" />
+              </button>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+          </>
+        )}
+        {tail.map((name) => (
+          <Fragment key={name}>
+            <BreadcrumbItem>{name}</BreadcrumbItem>
+            <BreadcrumbSeparator />
+          </Fragment>
+        ))}
+        <BreadcrumbItem>
+          <BreadcrumbPage>{className}</BreadcrumbPage>
+        </BreadcrumbItem>
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
@@ -0,0 +1,184 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { FileUp, PackagePlus, Trash2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Badge } from "./ui/badge"
+import { Switch } from "./ui/switch"
+import { useToast } from "../hooks/use-toast"
+import { useModelRegistry } from "../hooks/use-model-registry"
+import { createCustomModel, sortModelFiles } from "../lib/custom-model"
+import { isSessionModel, unregisterModel } from "../lib/model-registry"
+import { type NormalizationPreset, normalizationPresetLabels, normalizationPresets } from "../lib/normalization"
+import { unloadWorkerModel } from "../lib/inference-client"
+
+export function CustomModelUpload() {
+  const [files, setFiles] = useState<File[]>([])
+  const [name, setName] = useState("")
+  const [normalization, setNormalization] = useState<NormalizationPreset>("standard")
+  const [hasBackgroundClass, setHasBackgroundClass] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+  const sessionModels = useModelRegistry().filter((model) => isSessionModel(model.id))
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return
+    setFiles((current) => {
+      const added = Array.from(fileList).filter((file) => !current.some((existing) => existing.name === file.name))
+      return [...current, ...added]
+    })
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    addFiles(e.dataTransfer.files)
+  }
+
+  const handleRegister = async () => {
+    try {
+      setIsLoading(true)
+      const sorted = await sortModelFiles(files)
+      const descriptor = await createCustomModel(sorted, {
+        name,
+        normalization: normalizationPresets[normalization],
+        hasBackgroundClass,
+      })
+
+      toast({
+        title: "Custom model ready",
+        description: `${descriptor.name} (${descriptor.numClasses} classes) can now be selected above`,
+      })
+      setFiles([])
+      setName("")
+    } catch (error) {
+      console.error("Custom model upload failed:", error)
+      toast({
+        title: "Could not use this model",
+        description: error instanceof Error ? error.message : "The files could not be loaded",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRemove = (modelId: string) => {
+    unloadWorkerModel(modelId)
+    unregisterModel(modelId)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <PackagePlus className="h-5 w-5" />
+          Use Your Own Model
+        </CardTitle>
+        <CardDescription>
+          Drop a TensorFlow.js model.json, its .bin weight shards and a labels file (one label per line, a JSON
+          array, a JSON index-to-name map or ImageNet synset lines)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          multiple
+          accept=".json,.bin,.txt"
+          onChange={(e) => {
+            addFiles(e.target.files)
+            e.target.value = ""
+          }}
+        />
+
+        <div
+          className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+            isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400"
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <FileUp className="h-6 w-6 mx-auto text-muted-foreground" />
+          <p className="text-sm mt-2">
+            {files.length > 0 ? files.map((file) => file.name).join(", ") : "Drop model files here or click to browse"}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="custom-model-name">Name</Label>
+            <Input
+              id="custom-model-name"
+              placeholder="My model"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Input normalization</Label>
+            <Select value={normalization} onValueChange={(value) => setNormalization(value as NormalizationPreset)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(normalizationPresets) as NormalizationPreset[]).map((preset) => (
+                  <SelectItem key={preset} value={preset}>
+                    {normalizationPresetLabels[preset]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="custom-model-background" className="text-sm font-normal">
+            Output index 0 is a background class not listed in the labels file
+          </Label>
+          <Switch id="custom-model-background" checked={hasBackgroundClass} onCheckedChange={setHasBackgroundClass} />
+        </div>
+
+        <div className="flex gap-2">
+          <Button className="flex-1" disabled={files.length === 0 || isLoading} onClick={handleRegister}>
+            {isLoading ? "Checking model..." : "Add model"}
+          </Button>
+          {files.length > 0 && (
+            <Button variant="outline" disabled={isLoading} onClick={() => setFiles([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {sessionModels.length > 0 && (
+          <div className="space-y-2">
+            {sessionModels.map((model) => (
+              <div key={model.id} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{model.name}</span>
+                  <Badge variant="outline">{model.numClasses} classes</Badge>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemove(model.id)}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove {model.name}</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
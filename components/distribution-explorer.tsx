@@ -0,0 +1,169 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { BarChart3, ChevronDown } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible"
+import { Input } from "./ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { type ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart"
+
+export type OutputDistribution = {
+  probabilities: Float32Array
+  classNames: string[]
+}
+
+type SortOrder = "probability-desc" | "probability-asc" | "name" | "index"
+
+const sortLabels: Record<SortOrder, string> = {
+  "probability-desc": "Most likely first",
+  "probability-asc": "Least likely first",
+  name: "Class name",
+  index: "Class index",
+}
+
+// A log axis can't show 0, so tiny probabilities sit on this floor
+const LOG_FLOOR = 1e-8
+
+// Rows listed under the chart; the search narrows down the rest
+const MAX_ROWS = 100
+
+const chartConfig = {
+  probability: { label: "Probability", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+// Every class's probability, searchable and sortable, with a log-scale chart so the long tail stays visible
+export function DistributionExplorer({ distribution }: { distribution: OutputDistribution }) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const [sortOrder, setSortOrder] = useState<SortOrder>("probability-desc")
+
+  const entries = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    const matching = Array.from(distribution.probabilities, (probability, classIndex) => ({
+      classIndex,
+      className: distribution.classNames[classIndex] || `Class ${classIndex}`,
+      probability,
+    })).filter((entry) => !search || entry.className.toLowerCase().includes(search))
+
+    return matching.sort((a, b) => {
+      switch (sortOrder) {
+        case "probability-desc":
+          return b.probability - a.probability
+        case "probability-asc":
+          return a.probability - b.probability
+        case "name":
+          return a.className.localeCompare(b.className)
+        case "index":
+          return a.classIndex - b.classIndex
+      }
+    })
+  }, [distribution, query, sortOrder])
+
+  const chartData = useMemo(
+    () =>
+      entries.map((entry, rank) => ({
+        rank,
+        className: entry.className,
+        probability: Math.max(entry.probability, LOG_FLOOR),
+      })),
+    [entries],
+  )
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Full Distribution
+              </CardTitle>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                {distribution.probabilities.length} classes
+                <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+              </div>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Search classes"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                aria-label="Search classes"
+              />
+              <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(sortLabels) as SortOrder[]).map((order) => (
+                    <SelectItem key={order} value={order}>
+                      {sortLabels[order]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No class matches "{query}".</p>
+            ) : (
+              <>
+                <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                  <BarChart data={chartData} margin={{ left: 0, right: 8 }} barCategoryGap={0}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="rank" hide />
+                    <YAxis
+                      scale="log"
+                      domain={[LOG_FLOOR, 1]}
+                      allowDataOverflow
+                      width={48}
+                      tickFormatter={(value: number) => value.toExponential(0)}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => payload[0]?.payload.className}
+                          formatter={(value) => `${formatProbability(Number(value))}`}
+                        />
+                      }
+                    />
+                    <Bar dataKey="probability" fill="var(--color-probability)" isAnimationActive={false} />
+                  </BarChart>
+                </ChartContainer>
+
+                <div className="max-h-72 overflow-y-auto space-y-1 text-sm">
+                  {entries.slice(0, MAX_ROWS).map((entry) => (
+                    <div key={entry.classIndex} className="flex justify-between gap-4">
+                      <span className="truncate">
+                        <span className="text-muted-foreground mr-2">#{entry.classIndex}</span>
+                        {entry.className}
+                      </span>
+                      <span className="tabular-nums text-muted-foreground">{formatProbability(entry.probability)}</span>
+                    </div>
+                  ))}
+                </div>
+                {entries.length > MAX_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing {MAX_ROWS} of {entries.length}. Search to find the rest.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  )
+}
+
+// Percentages for likely classes; scientific notation in the long tail where percentages round to 0
+function formatProbability(probability: number): string {
+  return probability >= 0.001 ? `${(probability * 100).toFixed(1)}%` : probability.toExponential(1)
+}
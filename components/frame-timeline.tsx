@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Film } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Badge } from "./ui/badge"
+import { Progress } from "./ui/progress"
+
+type FramePrediction = {
+  className: string
+  probability: number
+}
+
+export type FrameTimelineData = {
+  // Frames in the animation; more than frames.length when it was sampled
+  frameCount: number
+  frames: {
+    index: number
+    // Milliseconds
+    timestamp: number
+    duration: number
+    results: FramePrediction[]
+  }[]
+}
+
+type FrameTimelineProps = {
+  timeline: FrameTimelineData
+  // The prediction averaged over all frames
+  aggregate: FramePrediction
+}
+
+// Per-frame top labels of an animated image, next to the prediction aggregated over all frames
+export function FrameTimeline({ timeline, aggregate }: FrameTimelineProps) {
+  const [selected, setSelected] = useState<number | null>(null)
+  const { frames, frameCount } = timeline
+
+  useEffect(() => setSelected(null), [timeline])
+
+  // How many frames each label tops, most frequent first
+  const topLabelCounts = Object.entries(
+    frames.reduce<Record<string, number>>((counts, frame) => {
+      const label = frame.results[0]?.className
+      if (label) {
+        counts[label] = (counts[label] || 0) + 1
+      }
+      return counts
+    }, {}),
+  ).sort(([, a], [, b]) => b - a)
+
+  const selectedFrame = selected === null ? null : frames[selected]
+  const last = frames[frames.length - 1]
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Film className="h-5 w-5" />
+            Frame Timeline
+          </CardTitle>
+          <Badge variant="outline">
+            {frames.length === frameCount ? `${frameCount} frames` : `${frames.length} of ${frameCount} frames`}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-muted-foreground">Across all frames</span>
+          <span className="font-medium">
+            {aggregate.className} ({Math.round(aggregate.probability * 100)}%)
+          </span>
+        </div>
+
+        <div className="flex gap-1 overflow-x-auto pb-2">
+          {frames.map((frame, i) => {
+            const top = frame.results[0]
+            const agrees = top?.className === aggregate.className
+            return (
+              <button
+                key={frame.index}
+                type="button"
+                title={`${formatTime(frame.timestamp)}: ${top?.className} (${Math.round((top?.probability || 0) * 100)}%)`}
+                onClick={() => setSelected(selected === i ? null : i)}
+                className={`flex flex-col items-center justify-end w-6 h-20 shrink-0 rounded-sm border ${
+                  selected === i ? "border-primary" : "border-transparent"
+                } hover:bg-muted`}
+              >
+                <div
+                  className={`w-4 rounded-sm ${agrees ? "bg-primary" : "bg-amber-500"}`}
+                  style={{ height: `${(top?.probability || 0) * 100}%` }}
+                />
+              </button>
+            )
+          })}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{formatTime(frames[0]?.timestamp || 0)}</span>
+          <span>{formatTime(last ? last.timestamp + last.duration : 0)}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {topLabelCounts.map(([label, count]) => (
+            <Badge key={label} variant={label === aggregate.className ? "default" : "secondary"}>
+              {label} × {count}
+            </Badge>
+          ))}
+        </div>
+
+        {selectedFrame && (
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm font-medium">
+              Frame {selectedFrame.index + 1} at {formatTime(selectedFrame.timestamp)}
+            </p>
+            {selectedFrame.results.map((result) => (
+              <div key={result.className} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{result.className}</span>
+                  <span>{Math.round(result.probability * 100)}%</span>
+                </div>
+                <Progress value={result.probability * 100} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function formatTime(milliseconds: number): string {
+  return `${(milliseconds / 1000).toFixed(2)}s`
+}
@@ -1,22 +1,35 @@
 
 "use client"
 
-import { useState, useRef } from "react"
-import { Upload, ImageIcon } from "lucide-react"
+import { useState, useRef, useEffect } from "react"
+import { Upload, ImageIcon, Link, X } from "lucide-react"
 import { Button } from "./ui/button"
 import { Card, CardContent } from "./ui/card"
+import { Input } from "./ui/input"
+import { Progress } from "./ui/progress"
 import { classifyImage } from "../app/actions"
 import Image from "next/image"
 import { useToast } from "../hooks/use-toast"
 import { ModelSelector } from "./model-selector"
+import { CustomModelUpload } from "./custom-model-upload"
+import { useSettings } from "../hooks/use-settings"
+import { DEFAULT_MODEL_ID } from "../lib/model-registry"
+import { type LoadProgress, describeLoadProgress } from "../lib/load-progress"
+import { createUprightImageUrl } from "../lib/image-processing"
+import { mayBeAnimated } from "../lib/animated-image"
+import { type ImageSource, MAX_IMAGE_BYTES, fetchImageUrl, isImageUrl, readImageSource } from "../lib/image-source"
 
 export function ImageUploader() {
   const [image, setImage] = useState<string | null>(null)
   const [isClassifying, setIsClassifying] = useState(false)
   const [isDragging, setIsDragging] = useState(false)
-  const [selectedModel, setSelectedModel] = useState("mobilenet")
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL_ID)
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
+  const [imageUrlInput, setImageUrlInput] = useState("")
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const { toast } = useToast()
+  const { settings } = useSettings()
 
   const handleModelChange = (modelId: string) => {
     setSelectedModel(modelId)
@@ -34,7 +47,7 @@ export function ImageUploader() {
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_IMAGE_BYTES) {
       toast({
         title: "File too large", 
         description: "Please upload an image smaller than 10MB",
@@ -45,71 +58,156 @@ export function ImageUploader() {
 
     try {
       setIsClassifying(true)
-      const imageUrl = await readFileAsDataURL(file)
+      // Decoded once with EXIF orientation and color profile applied; everything downstream reads this URL.
+      // GIF and WebP keep their original bytes so animations still play and can be split into frames.
+      const imageUrl = mayBeAnimated(file.type) ? URL.createObjectURL(file) : await createUprightImageUrl(file)
+      const previousImage = image
       setImage(imageUrl)
-
-      const result = await classifyImage(imageUrl, selectedModel)
-
-      if (result.error) {
-        throw new Error(result.error)
+      await classify(imageUrl)
+      if (previousImage) {
+        URL.revokeObjectURL(previousImage)
       }
-
-      window.dispatchEvent(
-        new CustomEvent("classification-result", {
-          detail: {
-            ...result,
-            originalImage: imageUrl,
-          },
-        })
-      )
-
+    } catch (error) {
+      console.error("Error reading file:", error)
       toast({
-        title: "Classification complete!",
-        description: `Top result: ${result.results?.[0]?.className || 'Unknown'}`,
+        title: "Could not read image",
+        description: "The selected file could not be opened",
+        variant: "destructive",
       })
-    } catch (error) {
-      console.error("Classification error:", error)
-      
-      // Fallback mock data
-      window.dispatchEvent(
-        new CustomEvent("classification-result", {
-          detail: {
-            results: [
-              { className: "golden retriever", superclass: "mammals", probability: 0.85 },
-              { className: "dog", superclass: "mammals", probability: 0.10 },
-              { className: "puppy", superclass: "mammals", probability: 0.03 },
-              { className: "animal", superclass: "mammals", probability: 0.01 },
-              { className: "pet", superclass: "mammals", probability: 0.01 },
-            ],
-            preprocessingSteps: {
-              original: image,
-              resized: image,
-              normalized: image,
-            },
-            originalImage: image,
-            modelId: selectedModel,
-            isMock: true,
-          },
-        })
-      )
+    } finally {
+      setIsClassifying(false)
+    }
+  }
+
+  // Files are classified directly; URLs are downloaded first, remote ones through the image proxy
+  const handleImageSource = async (source: ImageSource) => {
+    if ("file" in source) {
+      await handleFileChange(source.file)
+      return
+    }
 
+    let file: File
+    try {
+      setIsClassifying(true)
+      file = await fetchImageUrl(source.url)
+    } catch (error) {
+      console.error("Error fetching image:", error)
       toast({
-        title: "Using demo mode",
-        description: "Real model failed, showing example results",
+        title: "Could not load image",
+        description: error instanceof Error ? error.message : "The image address could not be loaded",
         variant: "destructive",
       })
+      return
     } finally {
       setIsClassifying(false)
     }
+    await handleFileChange(file)
   }
 
-  const readFileAsDataURL = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = (e) => resolve(e.target?.result as string)
-      reader.onerror = reject
-      reader.readAsDataURL(file)
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const url = imageUrlInput.trim()
+    if (!isImageUrl(url)) {
+      toast({
+        title: "Invalid image address",
+        description: "Enter a full http:// or https:// address of an image",
+        variant: "destructive",
+      })
+      return
+    }
+    setImageUrlInput("")
+    handleImageSource({ url })
+  }
+
+  const classify = async (imageUrl: string) => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    const result = await classifyImage(imageUrl, selectedModel, {
+      demoMode: settings.demoMode,
+      storageBudgetBytes: settings.storageBudgetMB * 1024 * 1024,
+      memoryBudgetBytes: settings.memoryBudgetMB * 1024 * 1024,
+      onProgress: setLoadProgress,
+      signal: abortController.signal,
+      backend: settings.backend,
+      temperature: settings.temperatures[selectedModel],
+      preprocessing: settings.preprocessingOverrides[selectedModel],
+      tta: settings.tta,
+      tiling: settings.tiling,
+      topK: settings.topK,
+      minProbability: settings.minProbability,
+      hedging: settings.hedging,
+    }).finally(() => {
+      abortControllerRef.current = null
+      setLoadProgress(null)
     })
+
+    window.dispatchEvent(
+      new CustomEvent("classification-result", {
+        detail: {
+          ...result,
+          originalImage: imageUrl,
+        },
+      })
+    )
+
+    if (result.error) {
+      toast({
+        title: result.errorKind === "cancelled" ? "Loading cancelled" : "Classification failed",
+        description: result.error,
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: result.isDemo ? "Demo classification complete" : "Classification complete!",
+      description: `Top result: ${result.results?.[0]?.className || 'Unknown'}`,
+    })
+  }
+
+  // The results view offers a retry button after a failed load or inference
+  useEffect(() => {
+    const handleRetry = async () => {
+      if (!image || isClassifying) return
+
+      setIsClassifying(true)
+      try {
+        await classify(image)
+      } finally {
+        setIsClassifying(false)
+      }
+    }
+
+    window.addEventListener("classification-retry", handleRetry)
+
+    return () => {
+      window.removeEventListener("classification-retry", handleRetry)
+    }
+  })
+
+  // Paste an image, or an image address, anywhere on the page outside a text field
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (isClassifying || !event.clipboardData || target?.closest("input, textarea, [contenteditable]")) return
+
+      const source = readImageSource(event.clipboardData)
+      if (source) {
+        event.preventDefault()
+        handleImageSource(source)
+      }
+    }
+
+    window.addEventListener("paste", handlePaste)
+
+    return () => {
+      window.removeEventListener("paste", handlePaste)
+    }
+  })
+
+  const cancelLoading = () => {
+    abortControllerRef.current?.abort()
   }
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -124,8 +222,18 @@ export function ImageUploader() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
-    if (e.dataTransfer.files?.[0]) {
-      handleFileChange(e.dataTransfer.files[0])
+    if (isClassifying) return
+
+    // Images dragged out of another tab arrive as a URL rather than a file
+    const source = readImageSource(e.dataTransfer)
+    if (source) {
+      handleImageSource(source)
+    } else {
+      toast({
+        title: "Nothing to classify",
+        description: "Drop an image file, or an image dragged from another page",
+        variant: "destructive",
+      })
     }
   }
 
@@ -135,7 +243,11 @@ export function ImageUploader() {
 
   return (
     <div className="space-y-6">
-      <ModelSelector onModelChange={handleModelChange} />
+      <ModelSelector
+        onModelChange={handleModelChange}
+        loadProgress={loadProgress ? { modelId: selectedModel, progress: loadProgress } : null}
+      />
+      <CustomModelUpload />
 
       <input
         type="file"
@@ -171,7 +283,7 @@ export function ImageUploader() {
               </div>
               <div className="text-center">
                 <p className="font-medium text-gray-900">Drop your image here</p>
-                <p className="text-sm text-gray-500 mt-1">or click to browse</p>
+                <p className="text-sm text-gray-500 mt-1">or click to browse, or paste from the clipboard</p>
               </div>
               <p className="text-xs text-gray-400">JPG, PNG, GIF, WebP up to 10MB</p>
             </>
@@ -179,6 +291,21 @@ export function ImageUploader() {
         </CardContent>
       </Card>
 
+      <form onSubmit={handleUrlSubmit} className="flex gap-2">
+        <Input
+          type="url"
+          placeholder="https://example.com/photo.jpg"
+          value={imageUrlInput}
+          onChange={(e) => setImageUrlInput(e.target.value)}
+          disabled={isClassifying}
+          aria-label="Image address"
+        />
+        <Button type="submit" variant="outline" disabled={isClassifying || !imageUrlInput.trim()}>
+          <Link className="w-4 h-4 mr-2" />
+          Load
+        </Button>
+      </form>
+
       <Button 
         onClick={triggerFileInput} 
         disabled={isClassifying} 
@@ -188,7 +315,9 @@ export function ImageUploader() {
         {isClassifying ? (
           <span className="flex items-center gap-2">
             <span className="animate-spin h-4 w-4 border-2 border-current border-t-transparent rounded-full" />
-            Classifying with {selectedModel}...
+            {loadProgress
+              ? describeLoadProgress(loadProgress)
+              : `${settings.demoMode ? "Running demo" : `Classifying with ${selectedModel}`}...`}
           </span>
         ) : (
           <span className="flex items-center gap-2">
@@ -197,6 +326,16 @@ export function ImageUploader() {
           </span>
         )}
       </Button>
+
+      {loadProgress && (
+        <div className="flex items-center gap-3">
+          <Progress value={loadProgress.fraction * 100} className="h-2 flex-1" />
+          <Button variant="outline" size="sm" onClick={cancelLoading}>
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Check, Info } from "lucide-react"
 import { Button } from "./ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "./ui/card"
@@ -8,57 +8,38 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog"
 import { Badge } from "./ui/badge"
+import { Progress } from "./ui/progress"
+import { DEFAULT_MODEL_ID, type ModelDescriptor, describeInputSize, isSessionModel, modelRegistry } from "../lib/model-registry"
+import { useModelRegistry } from "../hooks/use-model-registry"
+import { describeLabelSource } from "../lib/labels"
+import { describePipeline } from "../lib/preprocessing"
+import { type LoadProgress, describeLoadProgress } from "../lib/load-progress"
 
-const models = [
-  {
-    id: "mobilenet",
-    name: "MobileNet v1",
-    description: "Lightweight model optimized for mobile and web deployment",
-    categories: 1000,
-    imageSize: "224x224",
-    accuracy: "Medium-High",
-    speed: "Very Fast",
-    size: "Small (~4MB)",
-    details:
-      "MobileNet v1 uses depthwise separable convolutions to dramatically reduce computation and model size. It's specifically designed for mobile and embedded vision applications with limited computational resources while maintaining reasonable accuracy.",
-  },
-  {
-    id: "efficientnet",
-    name: "EfficientNet Lite",
-    description: "Balanced model with optimized accuracy and efficiency",
-    categories: 1000,
-    imageSize: "224x224",
-    accuracy: "High",
-    speed: "Fast",
-    size: "Medium (~10MB)",
-    details:
-      "EfficientNet uses compound scaling to uniformly scale network width, depth, and resolution. The Lite version is optimized for edge devices while maintaining high accuracy on ImageNet classification tasks.",
-  },
-  {
-    id: "resnet",
-    name: "ResNet Mobile",
-    description: "Deep residual network adapted for web deployment",
-    categories: 1000,
-    imageSize: "224x224",
-    accuracy: "High",
-    speed: "Medium",
-    size: "Medium (~9MB)",
-    details:
-      "ResNet uses residual connections to enable training of very deep networks. This mobile version is optimized for web deployment while retaining the powerful feature extraction capabilities of the ResNet architecture.",
-  },
-]
+type ModelSelectorProps = {
+  onModelChange: (modelId: string) => void
+  // Progress of the model currently being loaded, if any
+  loadProgress?: { modelId: string; progress: LoadProgress } | null
+}
 
-export function ModelSelector({ onModelChange }: { onModelChange: (modelId: string) => void }) {
-  const [selectedModel, setSelectedModel] = useState("mobilenet")
+export function ModelSelector({ onModelChange, loadProgress }: ModelSelectorProps) {
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL_ID)
   const [openDialog, setOpenDialog] = useState(false)
-  const [dialogModel, setDialogModel] = useState(models[0])
+  const [dialogModel, setDialogModel] = useState(modelRegistry[0])
+  const models = useModelRegistry()
+
+  // Fall back to the default model when the selected session model is removed
+  useEffect(() => {
+    if (!models.some((model) => model.id === selectedModel)) {
+      handleModelChange(DEFAULT_MODEL_ID)
+    }
+  }, [models])
 
   const handleModelChange = (value: string) => {
     setSelectedModel(value)
     onModelChange(value)
   }
 
-  const handleInfoClick = (model: (typeof models)[0]) => {
+  const handleInfoClick = (model: ModelDescriptor) => {
     setDialogModel(model)
     setOpenDialog(true)
   }
@@ -123,11 +104,18 @@ export function ModelSelector({ onModelChange }: { onModelChange: (modelId: stri
                   </div>
                 </CardHeader>
                 <CardContent className="p-4 pt-0">
-                  <p className="text-xs text-muted-foreground line-clamp-2">{model.description}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{model.card.description}</p>
                 </CardContent>
                 <CardFooter className="p-4 pt-0 flex flex-wrap gap-2">
-                  <Badge variant="outline">{model.categories} classes</Badge>
+                  <Badge variant="outline">{model.numClasses} classes</Badge>
                   <Badge variant="outline">{model.size}</Badge>
+                  {isSessionModel(model.id) && <Badge variant="secondary">Custom</Badge>}
+                  {loadProgress?.modelId === model.id && (
+                    <div className="w-full space-y-1">
+                      <Progress value={loadProgress.progress.fraction * 100} className="h-1.5" />
+                      <p className="text-xs text-muted-foreground">{describeLoadProgress(loadProgress.progress)}</p>
+                    </div>
+                  )}
                 </CardFooter>
               </Card>
             ))}
@@ -145,24 +133,32 @@ export function ModelSelector({ onModelChange }: { onModelChange: (modelId: stri
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
                 <p className="text-sm font-medium">Categories</p>
-                <p className="text-sm text-muted-foreground">{dialogModel.categories}</p>
+                <p className="text-sm text-muted-foreground">{dialogModel.numClasses}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Labels</p>
+                <p className="text-sm text-muted-foreground">{describeLabelSource(dialogModel.labels)}</p>
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium">Input Size</p>
-                <p className="text-sm text-muted-foreground">{dialogModel.imageSize}</p>
+                <p className="text-sm text-muted-foreground">{describeInputSize(dialogModel)}</p>
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium">Accuracy</p>
-                <p className="text-sm text-muted-foreground">{dialogModel.accuracy}</p>
+                <p className="text-sm text-muted-foreground">{dialogModel.card.accuracy}</p>
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium">Speed</p>
-                <p className="text-sm text-muted-foreground">{dialogModel.speed}</p>
+                <p className="text-sm text-muted-foreground">{dialogModel.card.speed}</p>
               </div>
             </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Preprocessing</p>
+              <p className="text-sm text-muted-foreground">{describePipeline(dialogModel.preprocessing)}</p>
+            </div>
             <div className="space-y-1">
               <p className="text-sm font-medium">Details</p>
-              <p className="text-sm text-muted-foreground">{dialogModel.details}</p>
+              <p className="text-sm text-muted-foreground">{dialogModel.card.details}</p>
             </div>
           </div>
         </DialogContent>
@@ -0,0 +1,114 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { HardDrive, Trash2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Label } from "./ui/label"
+import { Progress } from "./ui/progress"
+import { Slider } from "./ui/slider"
+import { useSettings } from "../hooks/use-settings"
+import { getModelDescriptor } from "../lib/model-registry"
+import { formatBytes } from "../lib/utils"
+import { MODEL_STORAGE_CHANGE_EVENT, type StoredModelInfo, isStorageAvailable } from "../lib/model-storage-info"
+import type { StorageAction } from "../lib/inference-protocol"
+import { updateModelStorage } from "../lib/inference-client"
+
+const MAX_BUDGET_MB = 500
+
+export function ModelStorageManager() {
+  const { settings, updateSettings } = useSettings()
+  const [storedModels, setStoredModels] = useState<StoredModelInfo[]>([])
+  const [budgetMB, setBudgetMB] = useState(settings.storageBudgetMB)
+
+  // Storage goes through tf.io, so the worker reads and changes it; every action answers with the new list
+  const updateStorage = useCallback(async (action: StorageAction) => {
+    try {
+      setStoredModels(await updateModelStorage(action))
+    } catch (error) {
+      console.error("Failed to update model storage:", error)
+    }
+  }, [])
+
+  const refresh = useCallback(() => updateStorage({ type: "list" }), [updateStorage])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(MODEL_STORAGE_CHANGE_EVENT, refresh)
+    return () => window.removeEventListener(MODEL_STORAGE_CHANGE_EVENT, refresh)
+  }, [refresh])
+
+  useEffect(() => {
+    setBudgetMB(settings.storageBudgetMB)
+  }, [settings.storageBudgetMB])
+
+  const commitBudget = async (value: number) => {
+    updateSettings({ storageBudgetMB: value })
+    await updateStorage({ type: "budget", budgetBytes: value * 1024 * 1024 })
+  }
+
+  if (!isStorageAvailable()) {
+    return null
+  }
+
+  const totalBytes = storedModels.reduce((sum, info) => sum + info.sizeBytes, 0)
+  const budgetBytes = budgetMB * 1024 * 1024
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <HardDrive className="h-5 w-5" />
+          Offline Model Storage
+        </CardTitle>
+        <CardDescription>Downloaded models are kept in your browser so later visits load without the network</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <Label>Storage budget</Label>
+            <span className="text-muted-foreground">
+              {budgetMB === 0 ? "Disabled" : `${formatBytes(totalBytes)} of ${budgetMB} MB`}
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={MAX_BUDGET_MB}
+            step={10}
+            value={[budgetMB]}
+            onValueChange={([value]) => setBudgetMB(value)}
+            onValueCommit={([value]) => commitBudget(value)}
+          />
+          {budgetMB > 0 && <Progress value={Math.min(100, (totalBytes / budgetBytes) * 100)} className="h-2" />}
+        </div>
+
+        {storedModels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No models are stored offline yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {storedModels.map((info) => (
+              <div key={info.key} className="flex items-center justify-between gap-2 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {getModelDescriptor(info.modelId)?.name || info.modelId}{" "}
+                    <span className="text-muted-foreground">v{info.version}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(info.sizeBytes)} · last used {info.lastUsedAt.toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => updateStorage({ type: "remove", key: info.key })}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove {info.modelId}</span>
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => updateStorage({ type: "clear" })}>
+              Clear all stored models
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
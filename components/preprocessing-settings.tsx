@@ -0,0 +1,246 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowDown, ArrowUp, Plus, SlidersHorizontal, Trash2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Badge } from "./ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Switch } from "./ui/switch"
+import { useSettings } from "../hooks/use-settings"
+import { useModelRegistry } from "../hooks/use-model-registry"
+import { DEFAULT_MODEL_ID, getModelDescriptor } from "../lib/model-registry"
+import {
+  type PreprocessingStep,
+  type PreprocessingStepType,
+  defaultSteps,
+  describePipeline,
+  describeStep,
+  validatePipeline,
+} from "../lib/preprocessing"
+
+const stepLabels: Record<PreprocessingStepType, string> = {
+  resize: "Resize",
+  "center-crop": "Center crop",
+  letterbox: "Letterbox",
+  "channel-order": "Channel order",
+}
+
+// Advanced settings: replace a model's preprocessing pipeline with your own list of steps
+export function PreprocessingSettings() {
+  const models = useModelRegistry()
+  const { settings, updateSettings } = useSettings()
+  const [modelId, setModelId] = useState(DEFAULT_MODEL_ID)
+  const [steps, setSteps] = useState<PreprocessingStep[]>([])
+  const [newStepType, setNewStepType] = useState<PreprocessingStepType>("center-crop")
+
+  const descriptor = getModelDescriptor(modelId)
+  const override = settings.preprocessingOverrides[modelId]
+
+  useEffect(() => {
+    setSteps(override || descriptor?.preprocessing || [])
+  }, [modelId, override, descriptor])
+
+  const updateStep = (index: number, step: PreprocessingStep) => {
+    setSteps((current) => current.map((existing, i) => (i === index ? step : existing)))
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps((current) => {
+      const next = [...current]
+      const [step] = next.splice(index, 1)
+      next.splice(index + offset, 0, step)
+      return next
+    })
+  }
+
+  const saveOverride = (pipeline: PreprocessingStep[] | null) => {
+    const { [modelId]: _, ...others } = settings.preprocessingOverrides
+    updateSettings({ preprocessingOverrides: pipeline ? { ...others, [modelId]: pipeline } : others })
+  }
+
+  const error = validatePipeline(steps)
+  const isDirty = JSON.stringify(steps) !== JSON.stringify(override || descriptor?.preprocessing || [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Advanced: Preprocessing
+        </CardTitle>
+        <CardDescription>
+          Steps run in order on the decoded image before normalization. Whatever the steps leave, the image ends at
+          the model's input size.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label>Model</Label>
+          <Select value={modelId} onValueChange={setModelId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {models.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                  {settings.preprocessingOverrides[model.id] && " (overridden)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {descriptor && (
+            <p className="text-xs text-muted-foreground">Model default: {describePipeline(descriptor.preprocessing)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {steps.map((step, index) => (
+            <div key={index} className="rounded-md border p-2 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline">{index + 1}</Badge>
+                  <span className="font-medium">{describeStep(step)}</span>
+                </div>
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => moveStep(index, -1)}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                    <span className="sr-only">Move up</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === steps.length - 1}
+                    onClick={() => moveStep(index, 1)}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                    <span className="sr-only">Move down</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    <span className="sr-only">Remove step</span>
+                  </Button>
+                </div>
+              </div>
+              <StepEditor step={step} onChange={(updated) => updateStep(index, updated)} />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Select value={newStepType} onValueChange={(value) => setNewStepType(value as PreprocessingStepType)}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(stepLabels) as PreprocessingStepType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {stepLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setSteps((current) => [...current, defaultSteps[newStepType]])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add step
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button className="flex-1" disabled={!isDirty || Boolean(error)} onClick={() => saveOverride(steps)}>
+            Save override
+          </Button>
+          {override && (
+            <Button variant="outline" onClick={() => saveOverride(null)}>
+              Use model default
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function StepEditor({ step, onChange }: { step: PreprocessingStep; onChange: (step: PreprocessingStep) => void }) {
+  switch (step.type) {
+    case "resize":
+      return (
+        <div className="flex items-center gap-4 text-sm">
+          <Select
+            value={step.method}
+            onValueChange={(method) => onChange({ ...step, method: method as typeof step.method })}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="bilinear">Bilinear</SelectItem>
+              <SelectItem value="nearest">Nearest</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch checked={step.antialias ?? false} onCheckedChange={(antialias) => onChange({ ...step, antialias })} />
+            <span>Antialias</span>
+          </div>
+        </div>
+      )
+    case "center-crop":
+      return (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Ratio</span>
+          <Input
+            type="number"
+            className="h-8 w-24"
+            min={0.1}
+            max={1}
+            step={0.005}
+            value={step.ratio}
+            onChange={(e) => onChange({ ...step, ratio: Number(e.target.value) })}
+          />
+        </div>
+      )
+    case "letterbox":
+      return (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Fill value (0-255)</span>
+          <Input
+            type="number"
+            className="h-8 w-24"
+            min={0}
+            max={255}
+            value={step.fill ?? 0}
+            onChange={(e) => onChange({ ...step, fill: Number(e.target.value) })}
+          />
+        </div>
+      )
+    case "channel-order":
+      return (
+        <Select value={step.order} onValueChange={(order) => onChange({ ...step, order: order as typeof step.order })}>
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rgb">RGB</SelectItem>
+            <SelectItem value="bgr">BGR</SelectItem>
+          </SelectContent>
+        </Select>
+      )
+  }
+}
@@ -1,71 +1,60 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import Image from "next/image"
 import { ArrowRight } from "lucide-react"
+import { describeInputSize, getModelDescriptor } from "../lib/model-registry"
+import { describeNormalization } from "../lib/normalization"
+import { type PreprocessingStep, describePipeline } from "../lib/preprocessing"
+import {
+  type TensorSnapshot,
+  channelNames,
+  channelStats,
+  renderSnapshot,
+  valueAt,
+} from "../lib/tensor-visualization"
 
 type PreprocessingStepsProps = {
   originalImage: string | null
+  // The model that produced the result the steps belong to
+  modelId: string
   preprocessingSteps: {
     original: string
-    resized: string
-    normalized: string
+    // The 0-255 image after the preprocessing pipeline
+    processed: TensorSnapshot
+    // The normalized tensor passed to model.predict
+    input: TensorSnapshot
+    // The pipeline the worker ran, which may be an override of the model's own
+    pipeline: PreprocessingStep[]
   } | null
 }
 
-export function PreprocessingSteps({ originalImage, preprocessingSteps }: PreprocessingStepsProps) {
-  const [activeTab, setActiveTab] = useState("visual")
-  const [modelId, setModelId] = useState<string>("cifar100")
-
-  useEffect(() => {
-    const handleClassificationResult = (event: Event) => {
-      const customEvent = event as CustomEvent
-      if (customEvent.detail.modelId) {
-        setModelId(customEvent.detail.modelId)
-      }
-    }
-
-    window.addEventListener("classification-result", handleClassificationResult)
+const channelColors: Record<string, string> = {
+  R: "bg-red-500",
+  G: "bg-green-500",
+  B: "bg-blue-500",
+  Gray: "bg-muted-foreground",
+}
 
-    return () => {
-      window.removeEventListener("classification-result", handleClassificationResult)
-    }
-  }, [])
+export function PreprocessingSteps({ originalImage, modelId, preprocessingSteps }: PreprocessingStepsProps) {
+  const [activeTab, setActiveTab] = useState("visual")
 
   if (!originalImage || !preprocessingSteps) {
     return null
   }
 
-  const getModelSpecificDetails = () => {
-    switch (modelId) {
-      case "mobilenet":
-        return {
-          size: "224x224",
-          normalization: "[-1, 1]",
-          details:
-            "MobileNet uses a different normalization range (-1 to 1) to improve training stability and model performance.",
-        }
-      case "efficientnet":
-        return {
-          size: "224x224",
-          normalization: "[0, 1]",
-          details:
-            "EfficientNet uses standard normalization (0 to 1) but with a larger input size for better feature extraction.",
-        }
-      case "cifar100":
-      default:
-        return {
-          size: "32x32",
-          normalization: "[0, 1]",
-          details:
-            "CIFAR-100 uses a small input size because the dataset consists of small images, and standard normalization.",
-        }
-    }
+  const descriptor = getModelDescriptor(modelId)
+  const { input, pipeline } = preprocessingSteps
+  const isOverride = !!descriptor && JSON.stringify(pipeline) !== JSON.stringify(descriptor.preprocessing)
+  const modelDetails = {
+    name: descriptor?.name || modelId,
+    size: descriptor ? describeInputSize(descriptor) : "unknown",
+    normalization: descriptor ? describeNormalization(descriptor.normalization) : "unknown",
+    details: descriptor?.card.preprocessing || "",
   }
-
-  const modelDetails = getModelSpecificDetails()
+  const [inputHeight, inputWidth, inputChannels] = input.shape
 
   return (
     <Card>
@@ -79,7 +68,7 @@ export function PreprocessingSteps({ originalImage, preprocessingSteps }: Prepro
             <TabsTrigger value="technical">Technical Details</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="visual" className="pt-4">
+          <TabsContent value="visual" className="pt-4 space-y-4">
             <div className="flex flex-col md:flex-row items-center justify-between gap-2 overflow-x-auto pb-2">
               <div className="flex flex-col items-center text-center">
                 <div className="relative w-32 h-32 border rounded overflow-hidden">
@@ -96,68 +85,58 @@ export function PreprocessingSteps({ originalImage, preprocessingSteps }: Prepro
               <ArrowRight className="rotate-90 md:rotate-0 my-2 md:my-0 text-muted-foreground" />
 
               <div className="flex flex-col items-center text-center">
-                <div className="relative w-32 h-32 border rounded overflow-hidden">
-                  <Image
-                    src={preprocessingSteps.resized || "/placeholder.svg"}
-                    alt={`Resized (${modelDetails.size})`}
-                    fill
-                    className="object-cover"
-                  />
-                </div>
-                <span className="text-sm mt-1">Resized ({modelDetails.size})</span>
+                <TensorCanvas snapshot={preprocessingSteps.processed} label={`Preprocessed (${modelDetails.size})`} />
+                <span className="text-sm mt-1">Preprocessed ({modelDetails.size})</span>
               </div>
 
               <ArrowRight className="rotate-90 md:rotate-0 my-2 md:my-0 text-muted-foreground" />
 
               <div className="flex flex-col items-center text-center">
-                <div className="relative w-32 h-32 border rounded overflow-hidden">
-                  <Image
-                    src={preprocessingSteps.normalized || "/placeholder.svg"}
-                    alt="Normalized"
-                    fill
-                    className="object-cover"
-                  />
-                </div>
-                <span className="text-sm mt-1">Normalized</span>
+                <TensorCanvas snapshot={input} label="Model input" inspect />
+                <span className="text-sm mt-1">Model input</span>
               </div>
             </div>
+
+            <p className="text-xs text-muted-foreground">
+              The model input is shown with [{formatValue(input.range[0])}, {formatValue(input.range[1])}] stretched to
+              black and white. Hover over it to read the normalized values.
+            </p>
+
+            <ChannelStatsTable snapshot={input} />
           </TabsContent>
 
           <TabsContent value="technical" className="pt-4 space-y-4">
             <div className="space-y-2">
               <h3 className="font-medium">1. Original Image</h3>
               <p className="text-sm text-muted-foreground">
-                The uploaded image is first converted to a format that can be processed by the model.
+                The uploaded image is decoded into RGB pixels with values from 0 to 255.
               </p>
             </div>
 
             <div className="space-y-2">
-              <h3 className="font-medium">2. Resize to {modelDetails.size}</h3>
+              <h3 className="font-medium">2. Preprocess to {modelDetails.size}</h3>
               <p className="text-sm text-muted-foreground">
-                {modelId === "cifar100"
-                  ? "CIFAR-100 models expect 32x32 pixel images."
-                  : `${modelId === "mobilenet" ? "MobileNet" : "EfficientNet"} models expect ${
-                      modelDetails.size
-                    } pixel images.`}{" "}
-                We resize your image to match this dimension while preserving as much information as possible.
+                {modelDetails.name} expects {modelDetails.size} pixel images. The pipeline runs{" "}
+                {describePipeline(pipeline) || "no steps"}
+                {isOverride && " (your override from the advanced settings)"}, then resizes to the input size if the
+                steps didn't already.
               </p>
             </div>
 
             <div className="space-y-2">
               <h3 className="font-medium">3. Normalization {modelDetails.normalization}</h3>
               <p className="text-sm text-muted-foreground">
-                Pixel values are normalized to the range {modelDetails.normalization}. {modelDetails.details}
+                Pixel values are normalized with {modelDetails.normalization}. {modelDetails.details}
               </p>
             </div>
 
             <div className="space-y-2">
               <h3 className="font-medium">4. Tensor Conversion</h3>
               <p className="text-sm text-muted-foreground">
-                The image is converted to a tensor with shape [1, {modelDetails.size.split("x")[0]},{" "}
-                {modelDetails.size.split("x")[1]}, 3] where:
+                The image is converted to a tensor with shape [1, {inputHeight}, {inputWidth}, {inputChannels}] where:
                 <br />- 1 is the batch size
                 <br />- {modelDetails.size} is the image dimensions
-                <br />- 3 is the number of color channels (RGB)
+                <br />- {inputChannels} is the number of color channels ({channelNames(input).join("")})
               </p>
             </div>
           </TabsContent>
@@ -166,3 +145,89 @@ export function PreprocessingSteps({ originalImage, preprocessingSteps }: Prepro
     </Card>
   )
 }
+
+// A snapshot drawn at its own resolution and scaled up without smoothing, so every pixel is visible
+function TensorCanvas({ snapshot, label, inspect }: { snapshot: TensorSnapshot; label: string; inspect?: boolean }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [hover, setHover] = useState<{ x: number; y: number; values: number[] } | null>(null)
+  const [height, width] = snapshot.shape
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      renderSnapshot(snapshot, canvasRef.current)
+    }
+  }, [snapshot])
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const x = Math.min(width - 1, Math.floor(((event.clientX - bounds.left) / bounds.width) * width))
+    const y = Math.min(height - 1, Math.floor(((event.clientY - bounds.top) / bounds.height) * height))
+    setHover({ x, y, values: valueAt(snapshot, x, y) })
+  }
+
+  const names = channelNames(snapshot)
+
+  return (
+    <div className="relative w-32 h-32 border rounded overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        aria-label={label}
+        className="w-full h-full [image-rendering:pixelated]"
+        onMouseMove={inspect ? handleMouseMove : undefined}
+        onMouseLeave={inspect ? () => setHover(null) : undefined}
+      />
+      {hover && (
+        <div className="absolute bottom-0 inset-x-0 bg-background/90 px-1 text-[10px] leading-tight font-mono pointer-events-none">
+          <div>
+            ({hover.x}, {hover.y})
+          </div>
+          <div>{hover.values.map((value, channel) => `${names[channel]} ${formatValue(value)}`).join(" ")}</div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Min, max, mean and a histogram over the display range for each channel
+function ChannelStatsTable({ snapshot }: { snapshot: TensorSnapshot }) {
+  const stats = useMemo(() => channelStats(snapshot), [snapshot])
+  const { range } = snapshot
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[2rem_1fr_1fr_1fr_2fr] gap-2 text-xs text-muted-foreground">
+        <span>Ch</span>
+        <span>Min</span>
+        <span>Max</span>
+        <span>Mean</span>
+        <span>
+          Histogram [{formatValue(range[0])}, {formatValue(range[1])}]
+        </span>
+      </div>
+      {stats.map((channel) => {
+        const peak = Math.max(...channel.histogram, 1)
+        return (
+          <div key={channel.name} className="grid grid-cols-[2rem_1fr_1fr_1fr_2fr] gap-2 items-end text-xs">
+            <span className="font-medium">{channel.name}</span>
+            <span>{formatValue(channel.min)}</span>
+            <span>{formatValue(channel.max)}</span>
+            <span>{formatValue(channel.mean)}</span>
+            <div className="flex items-end h-8 gap-px">
+              {channel.histogram.map((count, bin) => (
+                <div
+                  key={bin}
+                  className={`flex-1 ${channelColors[channel.name]}`}
+                  style={{ height: `${(count / peak) * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function formatValue(value: number): string {
+  return Number(value.toFixed(3)).toString()
+}
@@ -3,47 +3,82 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { Progress } from "./ui/progress"
-import { AlertCircle, Info } from "lucide-react"
+import { AlertCircle, AlertTriangle, Cpu, Info, Network, RotateCcw } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "./ui/alert"
 import { PreprocessingSteps as PreprocessingStepsComponent } from "./preprocessing-steps"
+import { FrameTimeline, type FrameTimelineData } from "./frame-timeline"
+import { TileHeatmap } from "./tile-heatmap"
+import { DistributionExplorer, type OutputDistribution } from "./distribution-explorer"
+import { ClassPath } from "./class-path"
 import { Badge } from "./ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip"
+import { Button } from "./ui/button"
+import { DEFAULT_MODEL_ID, getModelDescriptor } from "../lib/model-registry"
+import { type ModelErrorKind, type ModelErrorStage, errorKindTitles } from "../lib/errors"
+import { type BackendInfo, describeBackend } from "../lib/backend-info"
+import type { TensorSnapshot } from "../lib/tensor-visualization"
+import type { PreprocessingStep } from "../lib/preprocessing"
+import { type ClassStability, type TtaSummary, ttaModeLabels, ttaReductionLabels } from "../lib/augmentation"
+import { type ImageQuality, qualityIssueLabels } from "../lib/image-quality"
+import type { TiledSummary } from "../lib/tiling"
+import type { HedgedSummary } from "../lib/hedging"
 
 type ClassificationResult = {
   className: string
   probability: number
   superclass: string
+  path: string[]
 }
 
-type PreprocessingSteps = {
-  original: string
-  resized: string
-  normalized: string
+type ClassificationError = {
+  message: string
+  kind: ModelErrorKind
+  stage?: ModelErrorStage
 }
 
-const modelNames = {
-  cifar100: "CIFAR-100",
-  mobilenet: "MobileNet v2",
-  efficientnet: "EfficientNet-B0",
+type PreprocessingSteps = {
+  original: string
+  processed: TensorSnapshot
+  input: TensorSnapshot
+  pipeline: PreprocessingStep[]
 }
 
 export function ResultsDisplay() {
   const [results, setResults] = useState<ClassificationResult[] | null>(null)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ClassificationError | null>(null)
   const [originalImage, setOriginalImage] = useState<string | null>(null)
   const [preprocessingSteps, setPreprocessingSteps] = useState<PreprocessingSteps | null>(null)
-  const [modelId, setModelId] = useState<string>("cifar100")
-  const [isMock, setIsMock] = useState<boolean>(false)
+  const [modelId, setModelId] = useState<string>(DEFAULT_MODEL_ID)
+  const [isDemo, setIsDemo] = useState<boolean>(false)
+  const [backend, setBackend] = useState<BackendInfo | null>(null)
+  const [temperature, setTemperature] = useState(1)
+  const [timeline, setTimeline] = useState<FrameTimelineData | null>(null)
+  const [tta, setTta] = useState<TtaSummary | null>(null)
+  const [quality, setQuality] = useState<ImageQuality | null>(null)
+  const [tiles, setTiles] = useState<TiledSummary | null>(null)
+  const [distribution, setDistribution] = useState<OutputDistribution | null>(null)
+  const [minProbability, setMinProbability] = useState(0)
+  const [hedged, setHedged] = useState<HedgedSummary | null>(null)
 
   useEffect(() => {
     const handleClassificationResult = (event: Event) => {
       const customEvent = event as CustomEvent
 
       if (customEvent.detail.error) {
-        setError(customEvent.detail.error)
+        setError({
+          message: customEvent.detail.error,
+          kind: customEvent.detail.errorKind || "unknown",
+          stage: customEvent.detail.errorStage,
+        })
         setResults(null)
         setPreprocessingSteps(null)
-        setIsMock(false)
+        setTimeline(null)
+        setTta(null)
+        setQuality(null)
+        setTiles(null)
+        setDistribution(null)
+        setHedged(null)
+        setIsDemo(false)
         if (customEvent.detail.modelId) {
           setModelId(customEvent.detail.modelId)
         }
@@ -51,8 +86,17 @@ export function ResultsDisplay() {
         setResults(customEvent.detail.results)
         setOriginalImage(customEvent.detail.originalImage)
         setPreprocessingSteps(customEvent.detail.preprocessingSteps)
-        setModelId(customEvent.detail.modelId || "cifar100")
-        setIsMock(customEvent.detail.isMock || false)
+        setModelId(customEvent.detail.modelId || DEFAULT_MODEL_ID)
+        setIsDemo(customEvent.detail.isDemo || false)
+        setBackend(customEvent.detail.backend || null)
+        setTemperature(customEvent.detail.temperature ?? 1)
+        setTimeline(customEvent.detail.timeline || null)
+        setTta(customEvent.detail.tta || null)
+        setQuality(customEvent.detail.quality || null)
+        setTiles(customEvent.detail.tiles || null)
+        setDistribution(customEvent.detail.distribution || null)
+        setMinProbability(customEvent.detail.minProbability || 0)
+        setHedged(customEvent.detail.hedged || null)
         setError(null)
       }
     }
@@ -68,8 +112,25 @@ export function ResultsDisplay() {
     return (
       <Alert variant="destructive">
         <AlertCircle className="h-4 w-4" />
-        <AlertTitle>Error</AlertTitle>
-        <AlertDescription>{error}</AlertDescription>
+        <AlertTitle>{errorKindTitles[error.kind]}</AlertTitle>
+        <AlertDescription className="space-y-3">
+          <p>
+            {error.stage === "load"
+              ? `${getModelDescriptor(modelId)?.name || modelId} could not be loaded.`
+              : error.stage === "inference"
+                ? `${getModelDescriptor(modelId)?.name || modelId} failed while classifying the image.`
+                : "The image could not be classified."}{" "}
+            {error.message}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.dispatchEvent(new CustomEvent("classification-retry"))}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        </AlertDescription>
       </Alert>
     )
   }
@@ -86,14 +147,61 @@ export function ResultsDisplay() {
 
   return (
     <div className="space-y-6">
+      {isDemo && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Demo Mode Active</AlertTitle>
+          <AlertDescription>
+            These results come from a fake demo model that produces random predictions. Switch off demo mode in the
+            settings to classify with the real {getModelDescriptor(modelId)?.name || modelId} model.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {quality && quality.warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Image Quality Warnings</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>The predictions below may be less reliable than their confidence suggests.</p>
+            <ul className="space-y-1">
+              {quality.warnings.map((warning) => (
+                <li key={warning.issue} className="flex items-start gap-2">
+                  <Badge variant="outline" className="shrink-0">
+                    {qualityIssueLabels[warning.issue]}
+                  </Badge>
+                  <span>{warning.message}</span>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card>
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Classification Results</CardTitle>
             <div className="flex items-center gap-2">
-              <Badge variant="outline">{modelNames[modelId as keyof typeof modelNames] || modelId}</Badge>
+              <Badge variant="outline">{getModelDescriptor(modelId)?.name || modelId}</Badge>
+              {backend && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Cpu className="h-3 w-3" />
+                  {describeBackend(backend)}
+                </Badge>
+              )}
+              {tta && (
+                <Badge variant="outline" title={`Views: ${tta.views.join(", ")}`}>
+                  TTA: {ttaModeLabels[tta.mode]} ×{tta.views.length} ({ttaReductionLabels[tta.reduction].toLowerCase()})
+                </Badge>
+              )}
+              {temperature !== 1 && (
+                <Badge variant="outline" title="Confidences are temperature-scaled with a fitted calibration">
+                  Calibrated T={temperature.toFixed(2)}
+                </Badge>
+              )}
 
-              {isMock && (
+              {isDemo && (
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -106,7 +214,8 @@ export function ResultsDisplay() {
                     </TooltipTrigger>
                     <TooltipContent>
                       <p className="max-w-xs">
-                        Using simulated results. In a production environment, this would use actual model predictions.
+                        Demo mode is switched on in the settings. These predictions are random and do not describe
+                        the image.
                       </p>
                     </TooltipContent>
                   </Tooltip>
@@ -119,17 +228,24 @@ export function ResultsDisplay() {
           <div className="space-y-4">
             <div className="space-y-2">
               <div className="flex justify-between items-center">
-                <h3 className="font-medium">Top Prediction</h3>
+                <h3 className="font-medium">{timeline ? "Top Prediction Across Frames" : "Top Prediction"}</h3>
                 <span className="text-sm text-muted-foreground">Confidence</span>
               </div>
               <div className="flex justify-between items-center">
-                <div>
+                <div className="space-y-1">
                   <p className="text-xl font-bold">{results[0].className}</p>
-                  <p className="text-sm text-muted-foreground">Superclass: {results[0].superclass}</p>
+                  {results[0].path.length > 0 && <ClassPath path={results[0].path} className={results[0].className} />}
                 </div>
                 <span className="text-lg font-semibold">{Math.round(results[0].probability * 100)}%</span>
               </div>
+              {tta && <ViewStability stability={tta.stability[0]} viewCount={tta.views.length} isTop />}
+              {results[0].probability < minProbability && (
+                <p className="text-xs text-amber-600">
+                  Below your {Math.round(minProbability * 100)}% minimum probability; no class reached it.
+                </p>
+              )}
             </div>
+            {hedged && <HedgedAnswer hedged={hedged} />}
           </div>
         </CardContent>
       </Card>
@@ -137,32 +253,105 @@ export function ResultsDisplay() {
       <Card>
         <CardContent className="p-6">
           <h3 className="font-medium mb-4">Other Possibilities</h3>
+          {results.length === 1 && (
+            <p className="text-sm text-muted-foreground">
+              {minProbability > 0
+                ? `No other class reached ${Math.round(minProbability * 100)}%.`
+                : "Only the top prediction was requested."}
+            </p>
+          )}
           <div className="space-y-3">
-            {results.slice(1, 5).map((result, index) => (
+            {results.slice(1).map((result, index) => (
               <div key={index} className="space-y-1">
                 <div className="flex justify-between text-sm">
                   <span>{result.className}</span>
                   <span>{Math.round(result.probability * 100)}%</span>
                 </div>
                 <Progress value={result.probability * 100} className="h-2" />
+                {tta && <ViewStability stability={tta.stability[index + 1]} viewCount={tta.views.length} />}
               </div>
             ))}
           </div>
         </CardContent>
       </Card>
 
+      {timeline && <FrameTimeline timeline={timeline} aggregate={results[0]} />}
+
+      {tiles && originalImage && tiles.classes.length > 0 && <TileHeatmap summary={tiles} imageUrl={originalImage} />}
+
+      {distribution && <DistributionExplorer distribution={distribution} />}
+
       {/* Preprocessing Steps Visualization */}
-      <PreprocessingStepsComponent originalImage={originalImage} preprocessingSteps={preprocessingSteps} />
+      <PreprocessingStepsComponent
+        originalImage={originalImage}
+        modelId={modelId}
+        preprocessingSteps={preprocessingSteps}
+      />
+    </div>
+  )
+}
 
-      {isMock && (
-        <Alert>
-          <Info className="h-4 w-4" />
-          <AlertTitle>Demo Mode Active</AlertTitle>
-          <AlertDescription>
-            This is running in demonstration mode with simulated results. In a production environment, this application
-            would load actual TensorFlow.js models and provide real predictions.
-          </AlertDescription>
-        </Alert>
+// How consistently a class came out across the TTA views. A top prediction most views disagree with is flagged.
+function ViewStability({
+  stability,
+  viewCount,
+  isTop,
+}: {
+  stability?: ClassStability
+  viewCount: number
+  isTop?: boolean
+}) {
+  if (!stability) {
+    return null
+  }
+
+  const unstable = isTop && stability.top1Views / viewCount < 0.5
+  return (
+    <p className={`text-xs ${unstable ? "text-amber-600" : "text-muted-foreground"}`}>
+      Top prediction in {stability.top1Views}/{viewCount} views · {Math.round(stability.minProbability * 100)}–
+      {Math.round(stability.maxProbability * 100)}% across views
+    </p>
+  )
+}
+
+// The most specific class or group that reaches the confidence target, next to the specific guess above it
+function HedgedAnswer({ hedged }: { hedged: HedgedSummary }) {
+  const { answer, chain } = hedged
+  const target = Math.round(hedged.confidenceTarget * 100)
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium flex items-center gap-2">
+          <Network className="h-4 w-4" />
+          Confident Answer
+        </h3>
+        <span className="text-sm text-muted-foreground">At least {target}%</span>
+      </div>
+      {answer ? (
+        <>
+          <div className="flex justify-between items-center gap-4">
+            <div className="space-y-1">
+              <p className="text-lg font-semibold">{answer.name}</p>
+              {answer.path.length > 0 && <ClassPath path={answer.path} className={answer.name} />}
+            </div>
+            <span className="text-lg font-semibold">{Math.round(answer.probability * 100)}%</span>
+          </div>
+          {answer.classIndex !== undefined ? (
+            <p className="text-xs text-muted-foreground">The top prediction is confident enough on its own.</p>
+          ) : (
+            chain.length > 1 && (
+              <p className="text-xs text-muted-foreground">
+                {chain.map((node) => `${node.name} ${Math.round(node.probability * 100)}%`).join(" › ")}
+              </p>
+            )
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No class or group of classes reaches {target}%. Models without a label hierarchy can only answer with a
+          single class.
+        </p>
       )}
     </div>
   )
@@ -0,0 +1,382 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Activity, Copy, Cpu, FlaskConical, Gauge, Grid3x3, ListOrdered, MemoryStick, Network } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Label } from "./ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Slider } from "./ui/slider"
+import { Switch } from "./ui/switch"
+import { useSettings } from "../hooks/use-settings"
+import { type BackendPreference, type BenchmarkResult, fastestBackend, loadBenchmark } from "../lib/backend-info"
+import { benchmarkInWorker } from "../lib/inference-client"
+import {
+  type TtaMode,
+  type TtaReduction,
+  ttaModeLabels,
+  ttaReductionLabels,
+  viewNames,
+} from "../lib/augmentation"
+import { tileDivisionPresets, tileOverlapOptions } from "../lib/tiling"
+import { confidenceTargetOptions } from "../lib/hedging"
+
+const MIN_MEMORY_BUDGET_MB = 32
+const MAX_MEMORY_BUDGET_MB = 1024
+const MAX_TOP_K = 20
+// Highest selectable probability cutoff, in percent
+const MAX_CUTOFF_PERCENT = 50
+
+const backendLabels: Record<BackendPreference, string> = {
+  auto: "Automatic",
+  webgl: "WebGL",
+  wasm: "WebAssembly",
+  cpu: "CPU",
+}
+
+export function SettingsPanel() {
+  const { settings, updateSettings } = useSettings()
+  const [benchmark, setBenchmark] = useState<BenchmarkResult[] | null>(null)
+  const [isBenchmarking, setIsBenchmarking] = useState(false)
+  const [memoryBudgetMB, setMemoryBudgetMB] = useState(settings.memoryBudgetMB)
+  const [topK, setTopK] = useState(settings.topK)
+  const [cutoffPercent, setCutoffPercent] = useState(Math.round(settings.minProbability * 100))
+
+  useEffect(() => {
+    setBenchmark(loadBenchmark())
+  }, [])
+
+  useEffect(() => {
+    setMemoryBudgetMB(settings.memoryBudgetMB)
+  }, [settings.memoryBudgetMB])
+
+  useEffect(() => {
+    setTopK(settings.topK)
+    setCutoffPercent(Math.round(settings.minProbability * 100))
+  }, [settings.topK, settings.minProbability])
+
+  const handleBenchmark = async () => {
+    try {
+      setIsBenchmarking(true)
+      setBenchmark(await benchmarkInWorker())
+    } catch (error) {
+      console.error("Backend benchmark failed:", error)
+    } finally {
+      setIsBenchmarking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Settings</CardTitle>
+        <CardDescription>Options that apply to every classification</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="demo-mode" className="flex items-center gap-2">
+              <FlaskConical className="h-4 w-4" />
+              Demo mode
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Replace the real model with a fake one that produces random predictions. Results are labeled as demo
+              results and must not be relied on.
+            </p>
+          </div>
+          <Switch
+            id="demo-mode"
+            checked={settings.demoMode}
+            onCheckedChange={(checked) => updateSettings({ demoMode: checked })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label className="flex items-center gap-2">
+                <Cpu className="h-4 w-4" />
+                Backend
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Automatic uses the backend that was fastest in a short benchmark on this device. Switching reloads the
+                model.
+              </p>
+            </div>
+            <Select
+              value={settings.backend}
+              onValueChange={(value) => updateSettings({ backend: value as BackendPreference })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(backendLabels) as BackendPreference[]).map((backend) => (
+                  <SelectItem key={backend} value={backend}>
+                    {backendLabels[backend]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {benchmark && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              {benchmark.map((result) => (
+                <div key={result.backend} className="flex justify-between">
+                  <span>
+                    {backendLabels[result.backend]}
+                    {result.backend === fastestBackend(benchmark) && " (fastest)"}
+                  </span>
+                  <span>{result.msPerRun === null ? "Unavailable" : `${result.msPerRun.toFixed(1)} ms`}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button variant="outline" size="sm" disabled={isBenchmarking} onClick={handleBenchmark}>
+            <Gauge className="h-4 w-4 mr-2" />
+            {isBenchmarking ? "Benchmarking..." : benchmark ? "Run benchmark again" : "Run benchmark"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <Label className="flex items-center gap-2">
+              <MemoryStick className="h-4 w-4" />
+              Model memory budget
+            </Label>
+            <span className="text-muted-foreground">{memoryBudgetMB} MB</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Loaded models stay in memory for fast switching. Past this budget the least recently used ones are freed.
+          </p>
+          <Slider
+            min={MIN_MEMORY_BUDGET_MB}
+            max={MAX_MEMORY_BUDGET_MB}
+            step={32}
+            value={[memoryBudgetMB]}
+            onValueChange={([value]) => setMemoryBudgetMB(value)}
+            onValueCommit={([value]) => updateSettings({ memoryBudgetMB: value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <Label className="flex items-center gap-2">
+              <ListOrdered className="h-4 w-4" />
+              Predictions shown
+            </Label>
+            <span className="text-muted-foreground">
+              Top {topK}
+              {cutoffPercent > 0 && `, at least ${cutoffPercent}%`}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            How many classes to list per image, and the probability they must reach. The top prediction is always
+            shown; the full distribution stays available under the results.
+          </p>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span className="w-24 shrink-0">Count</span>
+            <Slider
+              min={1}
+              max={MAX_TOP_K}
+              step={1}
+              value={[topK]}
+              onValueChange={([value]) => setTopK(value)}
+              onValueCommit={([value]) => updateSettings({ topK: value })}
+            />
+          </div>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span className="w-24 shrink-0">Min. probability</span>
+            <Slider
+              min={0}
+              max={MAX_CUTOFF_PERCENT}
+              step={1}
+              value={[cutoffPercent]}
+              onValueChange={([value]) => setCutoffPercent(value)}
+              onValueCommit={([value]) => updateSettings({ minProbability: value / 100 })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="hedging" className="flex items-center gap-2">
+                <Network className="h-4 w-4" />
+                Hedged predictions
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Sum probabilities up the class hierarchy and also give the most specific answer that reaches a
+                confidence target, such as "dog" when the model can't settle on a breed.
+              </p>
+            </div>
+            <Switch
+              id="hedging"
+              checked={settings.hedging.enabled}
+              onCheckedChange={(checked) => updateSettings({ hedging: { ...settings.hedging, enabled: checked } })}
+            />
+          </div>
+
+          {settings.hedging.enabled && (
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-muted-foreground">Confidence target</span>
+              <Select
+                value={String(settings.hedging.confidenceTarget)}
+                onValueChange={(value) =>
+                  updateSettings({ hedging: { ...settings.hedging, confidenceTarget: Number(value) } })
+                }
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {confidenceTargetOptions.map((target) => (
+                    <SelectItem key={target} value={String(target)}>
+                      {Math.round(target * 100)}%
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label className="flex items-center gap-2">
+                <Copy className="h-4 w-4" />
+                Test-time augmentation
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Classify several views of each image in one batch and combine them, for steadier predictions at the
+                cost of some speed. Animated images use the plain frames.
+              </p>
+            </div>
+            <Select
+              value={settings.tta.mode}
+              onValueChange={(value) => updateSettings({ tta: { ...settings.tta, mode: value as TtaMode } })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ttaModeLabels) as TtaMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {ttaModeLabels[mode]}
+                    {mode !== "off" && ` (${viewNames(mode).length} views)`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.tta.mode !== "off" && (
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-muted-foreground">Combine views by</span>
+              <Select
+                value={settings.tta.reduction}
+                onValueChange={(value) =>
+                  updateSettings({ tta: { ...settings.tta, reduction: value as TtaReduction } })
+                }
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ttaReductionLabels) as TtaReduction[]).map((reduction) => (
+                    <SelectItem key={reduction} value={reduction}>
+                      {ttaReductionLabels[reduction]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="tiling" className="flex items-center gap-2">
+                <Grid3x3 className="h-4 w-4" />
+                Tiled classification
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Also classify overlapping windows of the image and show where each class was found, for photos with
+                several subjects. Animated images aren't tiled.
+              </p>
+            </div>
+            <Switch
+              id="tiling"
+              checked={settings.tiling.enabled}
+              onCheckedChange={(checked) => updateSettings({ tiling: { ...settings.tiling, enabled: checked } })}
+            />
+          </div>
+
+          {settings.tiling.enabled && (
+            <>
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-muted-foreground">Window scales</span>
+                <Select
+                  value={settings.tiling.divisions.join(",")}
+                  onValueChange={(value) =>
+                    updateSettings({ tiling: { ...settings.tiling, divisions: value.split(",").map(Number) } })
+                  }
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tileDivisionPresets.map(({ label, divisions }) => (
+                      <SelectItem key={label} value={divisions.join(",")}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-muted-foreground">Window overlap</span>
+                <Select
+                  value={String(settings.tiling.overlap)}
+                  onValueChange={(value) => updateSettings({ tiling: { ...settings.tiling, overlap: Number(value) } })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tileOverlapOptions.map((overlap) => (
+                      <SelectItem key={overlap} value={String(overlap)}>
+                        {overlap === 0 ? "None" : `${overlap * 100}%`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="tensor-monitor" className="flex items-center gap-2">
+              <Activity className="h-4 w-4" />
+              Tensor monitor
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Developer panel plotting live tensor count and memory, to spot leaks.
+            </p>
+          </div>
+          <Switch
+            id="tensor-monitor"
+            checked={settings.showTensorMonitor}
+            onCheckedChange={(checked) => updateSettings({ showTensorMonitor: checked })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Activity } from "lucide-react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { type ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart"
+import { useSettings } from "../hooks/use-settings"
+import { getWorkerMemory } from "../lib/inference-client"
+import type { MemorySnapshot } from "../lib/inference-protocol"
+import { getModelDescriptor } from "../lib/model-registry"
+import { formatBytes } from "../lib/utils"
+
+const POLL_INTERVAL_MS = 1000
+const MAX_SAMPLES = 120
+
+const chartConfig = {
+  numTensors: { label: "Tensors", color: "hsl(var(--chart-1))" },
+  megabytes: { label: "MB", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+// Developer panel: samples TF.js memory in the inference worker so leaks show up as a rising line
+export function TensorMonitor() {
+  const { settings } = useSettings()
+  const [samples, setSamples] = useState<MemorySnapshot[]>([])
+
+  useEffect(() => {
+    if (!settings.showTensorMonitor) {
+      return
+    }
+
+    let active = true
+    const poll = async () => {
+      const snapshot = await getWorkerMemory()
+      if (active && snapshot) {
+        setSamples((current) => [...current, snapshot].slice(-MAX_SAMPLES))
+      }
+    }
+
+    poll()
+    const interval = setInterval(poll, POLL_INTERVAL_MS)
+    return () => {
+      active = false
+      clearInterval(interval)
+    }
+  }, [settings.showTensorMonitor])
+
+  if (!settings.showTensorMonitor) {
+    return null
+  }
+
+  const latest = samples[samples.length - 1]
+  const data = samples.map((sample) => ({
+    time: new Date(sample.timestamp).toLocaleTimeString(),
+    numTensors: sample.numTensors,
+    megabytes: Number((sample.numBytes / (1024 * 1024)).toFixed(2)),
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Tensor Monitor
+        </CardTitle>
+        <CardDescription>
+          Live TF.js memory in the inference worker. A count that keeps growing between classifications is a leak.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!latest ? (
+          <p className="text-sm text-muted-foreground">Classify an image to start the inference worker.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Tensors</p>
+                <p className="font-medium">{latest.numTensors}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Memory</p>
+                <p className="font-medium">{formatBytes(latest.numBytes)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">GPU</p>
+                <p className="font-medium">
+                  {latest.numBytesInGPU !== undefined ? formatBytes(latest.numBytesInGPU) : "n/a"}
+                </p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+              <LineChart data={data} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" hide />
+                <YAxis yAxisId="tensors" width={40} />
+                <YAxis yAxisId="bytes" orientation="right" width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  yAxisId="tensors"
+                  dataKey="numTensors"
+                  stroke="var(--color-numTensors)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="bytes"
+                  dataKey="megabytes"
+                  stroke="var(--color-megabytes)"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="space-y-1 text-sm">
+              <p className="text-muted-foreground">Models in memory (least recently used first)</p>
+              {latest.cachedModels.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None</p>
+              ) : (
+                latest.cachedModels.map((model) => (
+                  <div key={model.id} className="flex justify-between text-xs">
+                    <span>{getModelDescriptor(model.id)?.name || model.id}</span>
+                    <span className="text-muted-foreground">{formatBytes(model.sizeBytes)}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Grid3x3 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Badge } from "./ui/badge"
+import type { TiledSummary } from "../lib/tiling"
+
+type TileHeatmapProps = {
+  summary: TiledSummary
+  imageUrl: string
+}
+
+// Cells along the heatmap's long side; the browser smooths them when scaling over the image
+const HEATMAP_RESOLUTION = 64
+
+// Where each class found by tiled classification fires, drawn over the image
+export function TileHeatmap({ summary, imageUrl }: TileHeatmapProps) {
+  const [selected, setSelected] = useState(0)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const { classes, tiles, width, height } = summary
+  const selectedClass = classes[selected] || classes[0]
+
+  useEffect(() => setSelected(0), [summary])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (canvas && selectedClass) {
+      drawHeatmap(canvas, summary, selectedClass.heat)
+    }
+  }, [summary, selectedClass])
+
+  const scales = new Set(tiles.map((tile) => tile.division)).size
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5" />
+            Tiled Classification
+          </CardTitle>
+          <Badge variant="outline">
+            {tiles.length} tiles{scales > 1 && ` at ${scales} scales`}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative mx-auto max-w-md" style={{ aspectRatio: `${width} / ${height}` }}>
+          {/* Plain img so the overlay lines up with the exact image box */}
+          <img src={imageUrl} alt="Tiled image" className="absolute inset-0 h-full w-full rounded-lg" />
+          <canvas ref={canvasRef} className="absolute inset-0 h-full w-full rounded-lg" />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Classes found across the tiles. Select one to show where it was detected.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {classes.map((found, i) => (
+              <button key={found.classIndex} type="button" onClick={() => setSelected(i)}>
+                <Badge variant={found === selectedClass ? "default" : "secondary"}>
+                  {found.className} · {Math.round(found.probability * 100)}%
+                  {found.tileCount > 0 && ` · ${found.tileCount} ${found.tileCount === 1 ? "tile" : "tiles"}`}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Each cell takes the highest probability among the tiles covering it
+function drawHeatmap(canvas: HTMLCanvasElement, { tiles, width, height }: TiledSummary, heat: number[]) {
+  const scale = HEATMAP_RESOLUTION / Math.max(width, height)
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+
+  const context = canvas.getContext("2d")!
+  const pixels = context.createImageData(canvas.width, canvas.height)
+  for (let row = 0; row < canvas.height; row++) {
+    for (let column = 0; column < canvas.width; column++) {
+      const x = (column + 0.5) / scale
+      const y = (row + 0.5) / scale
+      let value = 0
+      tiles.forEach((tile, i) => {
+        if (x >= tile.x && x < tile.x + tile.size && y >= tile.y && y < tile.y + tile.size) {
+          value = Math.max(value, heat[i])
+        }
+      })
+
+      const offset = (row * canvas.width + column) * 4
+      pixels.data[offset] = 239
+      pixels.data[offset + 1] = 68
+      pixels.data[offset + 2] = 68
+      pixels.data[offset + 3] = Math.round(value * 0.7 * 255)
+    }
+  }
+  context.putImageData(pixels, 0, 0)
+}
@@ -0,0 +1,17 @@
+"use client"
+
+import * as React from "react"
+import { MODEL_REGISTRY_CHANGE_EVENT, listModels } from "../lib/model-registry"
+
+// Built-in plus session models, updated when a model is registered or removed
+export function useModelRegistry() {
+  const [models, setModels] = React.useState(listModels)
+
+  React.useEffect(() => {
+    const onChange = () => setModels(listModels())
+    window.addEventListener(MODEL_REGISTRY_CHANGE_EVENT, onChange)
+    return () => window.removeEventListener(MODEL_REGISTRY_CHANGE_EVENT, onChange)
+  }, [])
+
+  return models
+}
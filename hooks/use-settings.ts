@@ -0,0 +1,22 @@
+"use client"
+
+import * as React from "react"
+import { type AppSettings, SETTINGS_CHANGE_EVENT, loadSettings, saveSettings } from "../lib/settings"
+
+export function useSettings() {
+  const [settings, setSettings] = React.useState<AppSettings>(loadSettings)
+
+  React.useEffect(() => {
+    const onChange = (event: Event) => {
+      setSettings((event as CustomEvent<AppSettings>).detail)
+    }
+    window.addEventListener(SETTINGS_CHANGE_EVENT, onChange)
+    return () => window.removeEventListener(SETTINGS_CHANGE_EVENT, onChange)
+  }, [])
+
+  const updateSettings = React.useCallback((update: Partial<AppSettings>) => {
+    saveSettings(update)
+  }, [])
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,110 @@
+import { countGifFrames, decodeGif, isGif } from "./gif-decoder"
+
+// Splitting animated GIF and WebP images into frames. WebCodecs' ImageDecoder handles both
+// where available; otherwise GIFs fall back to the pure-JS decoder and WebP is treated as a still.
+
+export type AnimationFrame = {
+  bitmap: ImageBitmap
+  // Position in the original animation
+  index: number
+  // Start time and display time, in milliseconds
+  timestamp: number
+  duration: number
+}
+
+export type DecodedAnimation = {
+  frames: AnimationFrame[]
+  // Frames in the file; more than frames.length when the animation was sampled
+  frameCount: number
+}
+
+// Longer animations are sampled evenly so classification time stays bounded
+export const MAX_FRAMES = 32
+
+const ANIMATED_TYPES = ["image/gif", "image/webp"]
+
+export function mayBeAnimated(type: string): boolean {
+  return ANIMATED_TYPES.includes(type)
+}
+
+// Decode the frames of an animated image. Returns null for stills, including single-frame GIFs and WebPs.
+export async function decodeAnimation(blob: Blob): Promise<DecodedAnimation | null> {
+  if (!mayBeAnimated(blob.type)) {
+    return null
+  }
+
+  if (typeof ImageDecoder !== "undefined" && (await ImageDecoder.isTypeSupported(blob.type))) {
+    return decodeWithImageDecoder(blob)
+  }
+
+  const buffer = await blob.arrayBuffer()
+  if (isGif(new Uint8Array(buffer, 0, Math.min(6, buffer.byteLength)))) {
+    return decodeWithGifDecoder(buffer)
+  }
+  return null
+}
+
+// Indices of at most `limit` frames, spread evenly over the animation
+export function sampleFrameIndices(frameCount: number, limit = MAX_FRAMES): number[] {
+  if (frameCount <= limit) {
+    return Array.from({ length: frameCount }, (_, index) => index)
+  }
+  return Array.from({ length: limit }, (_, i) => Math.floor((i * frameCount) / limit))
+}
+
+async function decodeWithImageDecoder(blob: Blob): Promise<DecodedAnimation | null> {
+  const decoder = new ImageDecoder({ data: await blob.arrayBuffer(), type: blob.type })
+  const frames: AnimationFrame[] = []
+
+  try {
+    // With the whole file in memory, completed means the frame count is final
+    await decoder.tracks.ready
+    await decoder.completed
+    const track = decoder.tracks.selectedTrack
+    if (!track || !track.animated || track.frameCount < 2) {
+      return null
+    }
+
+    for (const index of sampleFrameIndices(track.frameCount)) {
+      const { image } = await decoder.decode({ frameIndex: index })
+      try {
+        frames.push({
+          bitmap: await createImageBitmap(image),
+          index,
+          // VideoFrame times are in microseconds
+          timestamp: image.timestamp / 1000,
+          duration: (image.duration ?? 0) / 1000,
+        })
+      } finally {
+        image.close()
+      }
+    }
+
+    return { frames, frameCount: track.frameCount }
+  } catch (error) {
+    frames.forEach((frame) => frame.bitmap.close())
+    throw error
+  } finally {
+    decoder.close()
+  }
+}
+
+async function decodeWithGifDecoder(buffer: ArrayBuffer): Promise<DecodedAnimation | null> {
+  const frameCount = countGifFrames(buffer)
+  if (frameCount < 2) {
+    return null
+  }
+
+  const sampled = new Set(sampleFrameIndices(frameCount))
+  const frames: AnimationFrame[] = []
+  for (const frame of decodeGif(buffer, (index) => sampled.has(index))) {
+    frames.push({
+      bitmap: await createImageBitmap(frame.pixels),
+      index: frame.index,
+      timestamp: frame.timestamp,
+      duration: frame.delay,
+    })
+  }
+
+  return { frames, frameCount }
+}
@@ -0,0 +1,104 @@
+// Test-time augmentation (TTA): classify several views of the image in one batch and combine
+// their probabilities. Agreement between the views shows how stable a prediction is.
+
+export type TtaMode = "off" | "flip" | "five-crop" | "ten-crop" | "multi-scale"
+
+// "mean" averages the views' probabilities; "max" keeps each class's highest, renormalized to sum to 1
+export type TtaReduction = "mean" | "max"
+
+export type TtaSettings = {
+  mode: TtaMode
+  reduction: TtaReduction
+}
+
+// How one of the combined top classes fared in the individual views
+export type ClassStability = {
+  // Views in which this class was the top prediction
+  top1Views: number
+  minProbability: number
+  maxProbability: number
+}
+
+export type TtaSummary = TtaSettings & {
+  views: string[]
+  // Aligned with the combined predictions
+  stability: ClassStability[]
+}
+
+export const ttaModeLabels: Record<TtaMode, string> = {
+  off: "Off",
+  flip: "Horizontal flip",
+  "five-crop": "Five-crop",
+  "ten-crop": "Ten-crop",
+  "multi-scale": "Multi-scale",
+}
+
+export const ttaReductionLabels: Record<TtaReduction, string> = {
+  mean: "Average",
+  max: "Max-pool",
+}
+
+// Crops cover this fraction of the enlarged image, as in the usual resize-256, crop-224 evaluation
+export const CROP_RATIO = 0.875
+
+export const SCALES = [1, 1.15, 1.3]
+
+export type CropPosition = "center" | "top-left" | "top-right" | "bottom-left" | "bottom-right"
+
+export const CROPS: CropPosition[] = ["center", "top-left", "top-right", "bottom-left", "bottom-right"]
+
+// Names of the views a mode produces, in batch order
+export function viewNames(mode: TtaMode): string[] {
+  switch (mode) {
+    case "off":
+      return ["original"]
+    case "flip":
+      return ["original", "flipped"]
+    case "five-crop":
+      return CROPS
+    case "ten-crop":
+      return [...CROPS, ...CROPS.map((crop) => `${crop} flipped`)]
+    case "multi-scale":
+      return SCALES.map((scale) => `${Math.round(scale * 100)}% scale`)
+  }
+}
+
+// Combine the views' probability vectors into one
+export function combineViews(views: Float32Array[], reduction: TtaReduction): Float32Array {
+  const combined = new Float32Array(views[0].length)
+  for (const view of views) {
+    for (let i = 0; i < combined.length; i++) {
+      combined[i] = reduction === "max" ? Math.max(combined[i], view[i]) : combined[i] + view[i]
+    }
+  }
+
+  const total = combined.reduce((sum, value) => sum + value, 0)
+  return total > 0 ? combined.map((value) => value / total) : combined
+}
+
+export function classStability(views: Float32Array[], classIndex: number): ClassStability {
+  let top1Views = 0
+  let minProbability = Infinity
+  let maxProbability = -Infinity
+
+  for (const view of views) {
+    const probability = view[classIndex]
+    minProbability = Math.min(minProbability, probability)
+    maxProbability = Math.max(maxProbability, probability)
+    if (argMax(view) === classIndex) {
+      top1Views++
+    }
+  }
+
+  return { top1Views, minProbability, maxProbability }
+}
+
+function argMax(values: Float32Array): number {
+  let best = 0
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) {
+      best = i
+    }
+  }
+  return best
+}
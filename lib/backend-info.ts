@@ -0,0 +1,77 @@
+// Backend names, descriptions and the stored benchmark results.
+// Kept free of TensorFlow.js so the main thread can use them without bundling it; the backends
+// themselves are only initialized and benchmarked inside the inference worker (lib/backend.ts).
+
+export type BackendName = "webgl" | "wasm" | "cpu"
+
+export type BackendPreference = "auto" | BackendName
+
+export type BackendInfo = {
+  name: BackendName
+  // Only reported for the wasm backend
+  simd?: boolean
+  threads?: boolean
+}
+
+export type BenchmarkResult = {
+  backend: BackendName
+  // Median time of one benchmark run, or null if the backend failed to initialize
+  msPerRun: number | null
+}
+
+export const BACKEND_CANDIDATES: BackendName[] = ["webgl", "wasm", "cpu"]
+
+// Where the app serves the wasm backend's binaries; vite.config.ts puts them there
+export const WASM_BINARIES_PATH = "/tfjs-wasm/"
+
+const BENCHMARK_STORAGE_KEY = "image-classifier-backend-benchmark"
+
+// Results from this session, or handed in by the main thread when running inside a worker
+let benchmarkResults: BenchmarkResult[] | null = null
+
+export function describeBackend(info: BackendInfo): string {
+  switch (info.name) {
+    case "webgl":
+      return "WebGL"
+    case "cpu":
+      return "CPU"
+    case "wasm": {
+      const features = [info.simd && "SIMD", info.threads && "threads"].filter(Boolean)
+      return features.length > 0 ? `WASM (${features.join(", ")})` : "WASM"
+    }
+    default:
+      return info.name
+  }
+}
+
+export function loadBenchmark(): BenchmarkResult[] | null {
+  if (benchmarkResults || typeof localStorage === "undefined") {
+    return benchmarkResults
+  }
+
+  try {
+    const stored = localStorage.getItem(BENCHMARK_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as BenchmarkResult[]) : null
+  } catch {
+    return null
+  }
+}
+
+export function fastestBackend(results: BenchmarkResult[]): BackendName {
+  const timed = results.filter((result) => result.msPerRun !== null)
+  timed.sort((a, b) => a.msPerRun! - b.msPerRun!)
+  return timed[0]?.backend || "cpu"
+}
+
+export function saveBenchmark(results: BenchmarkResult[]) {
+  benchmarkResults = results
+  if (typeof localStorage === "undefined") {
+    return
+  }
+
+  try {
+    localStorage.setItem(BENCHMARK_STORAGE_KEY, JSON.stringify(results))
+  } catch (error) {
+    console.error("Failed to save backend benchmark:", error)
+  }
+}
@@ -0,0 +1,131 @@
+import * as tf from "@tensorflow/tfjs"
+import { setWasmPaths } from "@tensorflow/tfjs-backend-wasm"
+import {
+  BACKEND_CANDIDATES,
+  type BackendInfo,
+  type BackendName,
+  type BackendPreference,
+  type BenchmarkResult,
+  WASM_BINARIES_PATH,
+  fastestBackend,
+  loadBenchmark,
+  saveBenchmark,
+} from "./backend-info"
+
+// TensorFlow.js backend selection. Only used inside the inference worker; the TF-free types and
+// benchmark storage the main thread needs live in lib/backend-info.ts.
+// "auto" picks the backend that won a short micro-benchmark on this device. The benchmark
+// runs once, on the first load, and its result is remembered in localStorage.
+
+const BENCHMARK_RUNS = 5
+
+let wasmConfigured = false
+
+// The wasm binaries are fetched at runtime from the copies the app serves next to its own files
+function configureWasm() {
+  if (!wasmConfigured) {
+    setWasmPaths(WASM_BINARIES_PATH)
+    wasmConfigured = true
+  }
+}
+
+async function trySetBackend(name: BackendName): Promise<boolean> {
+  if (name === "wasm") {
+    configureWasm()
+  }
+
+  try {
+    const ok = await tf.setBackend(name)
+    await tf.ready()
+    return ok && tf.getBackend() === name
+  } catch (error) {
+    console.warn(`Backend ${name} is not available:`, error)
+    return false
+  }
+}
+
+// Switch to the preferred backend, falling back through the candidates if it can't initialize.
+// Returns whether the active backend changed, since models loaded on the old one must be reloaded.
+export async function initializeBackend(preference: BackendPreference = "auto"): Promise<boolean> {
+  const previous = tf.getBackend()
+  const preferred = preference === "auto" ? await getFastestBackend() : preference
+
+  if (previous !== preferred) {
+    const order = [preferred, ...BACKEND_CANDIDATES.filter((name) => name !== preferred)]
+    for (const name of order) {
+      if (await trySetBackend(name)) break
+    }
+  }
+
+  await tf.ready()
+  return previous !== undefined && previous !== tf.getBackend()
+}
+
+export async function getBackendInfo(): Promise<BackendInfo> {
+  const name = tf.getBackend() as BackendName
+
+  if (name !== "wasm") {
+    return { name }
+  }
+
+  return {
+    name,
+    simd: Boolean(await tf.env().getAsync("WASM_HAS_SIMD_SUPPORT")),
+    threads: Boolean(await tf.env().getAsync("WASM_HAS_MULTITHREAD_SUPPORT")),
+  }
+}
+
+// Time a small convolution on every candidate backend and remember the results
+export async function runBackendBenchmark(): Promise<BenchmarkResult[]> {
+  const previous = tf.getBackend() as BackendName | undefined
+  const results: BenchmarkResult[] = []
+
+  for (const backend of BACKEND_CANDIDATES) {
+    if (!(await trySetBackend(backend))) {
+      results.push({ backend, msPerRun: null })
+      continue
+    }
+    results.push({ backend, msPerRun: await timeConvolution() })
+  }
+
+  saveBenchmark(results)
+
+  if (previous) {
+    await trySetBackend(previous)
+  }
+  return results
+}
+
+async function getFastestBackend(): Promise<BackendName> {
+  const results = loadBenchmark() || (await runBackendBenchmark())
+  return fastestBackend(results)
+}
+
+// Median time of a convolution roughly the size of an early MobileNet layer
+async function timeConvolution(): Promise<number> {
+  const input = tf.randomNormal<tf.Rank.R4>([1, 64, 64, 16])
+  const filter = tf.randomNormal<tf.Rank.R4>([3, 3, 16, 16])
+
+  const run = async () => {
+    const output = tf.conv2d(input, filter, 1, "same")
+    await output.data()
+    output.dispose()
+  }
+
+  try {
+    // The first run compiles shaders / instantiates wasm and isn't representative
+    await run()
+
+    const times: number[] = []
+    for (let i = 0; i < BENCHMARK_RUNS; i++) {
+      const start = performance.now()
+      await run()
+      times.push(performance.now() - start)
+    }
+
+    times.sort((a, b) => a - b)
+    return times[Math.floor(times.length / 2)]
+  } finally {
+    tf.dispose([input, filter])
+  }
+}
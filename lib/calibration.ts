@@ -0,0 +1,136 @@
+// Temperature scaling: a single per-model scalar T that divides the logits before the softmax.
+// T > 1 softens overconfident predictions, T < 1 sharpens underconfident ones. It is fitted by
+// minimizing the negative log-likelihood of a small labeled set, which leaves the ranking of
+// classes, and so the accuracy, unchanged.
+
+export type CalibrationSample = {
+  logits: ArrayLike<number>
+  // Index of the true class
+  target: number
+}
+
+export type CalibrationResult = {
+  temperature: number
+  // Images that were matched to a class and used for fitting
+  sampleCount: number
+  // Labels that matched none of the model's classes, with how many images carried each
+  unmatchedLabels: Record<string, number>
+  accuracy: number
+  nllBefore: number
+  nllAfter: number
+  // Mean top-1 confidence; after calibration it should be close to the accuracy
+  confidenceBefore: number
+  confidenceAfter: number
+}
+
+const MIN_TEMPERATURE = 0.05
+const MAX_TEMPERATURE = 20
+
+function logSoftmax(logits: ArrayLike<number>, temperature: number): number[] {
+  let max = -Infinity
+  for (let i = 0; i < logits.length; i++) {
+    max = Math.max(max, logits[i] / temperature)
+  }
+
+  let sum = 0
+  for (let i = 0; i < logits.length; i++) {
+    sum += Math.exp(logits[i] / temperature - max)
+  }
+
+  const logSum = max + Math.log(sum)
+  return Array.from(logits, (value) => value / temperature - logSum)
+}
+
+export function negativeLogLikelihood(samples: CalibrationSample[], temperature: number): number {
+  const total = samples.reduce((sum, { logits, target }) => sum - logSoftmax(logits, temperature)[target], 0)
+  return total / samples.length
+}
+
+export function meanConfidence(samples: CalibrationSample[], temperature: number): number {
+  const total = samples.reduce((sum, { logits }) => sum + Math.exp(Math.max(...logSoftmax(logits, temperature))), 0)
+  return total / samples.length
+}
+
+export function accuracy(samples: CalibrationSample[]): number {
+  const correct = samples.filter(({ logits, target }) => argmax(logits) === target).length
+  return correct / samples.length
+}
+
+// Golden-section search over log T; the NLL is unimodal in T for temperature scaling
+export function fitTemperature(samples: CalibrationSample[]): number {
+  const ratio = (Math.sqrt(5) - 1) / 2
+  const nll = (logT: number) => negativeLogLikelihood(samples, Math.exp(logT))
+
+  let low = Math.log(MIN_TEMPERATURE)
+  let high = Math.log(MAX_TEMPERATURE)
+  let a = high - ratio * (high - low)
+  let b = low + ratio * (high - low)
+  let nllA = nll(a)
+  let nllB = nll(b)
+
+  for (let i = 0; i < 60 && high - low > 1e-4; i++) {
+    if (nllA < nllB) {
+      high = b
+      b = a
+      nllB = nllA
+      a = high - ratio * (high - low)
+      nllA = nll(a)
+    } else {
+      low = a
+      a = b
+      nllA = nllB
+      b = low + ratio * (high - low)
+      nllB = nll(b)
+    }
+  }
+
+  return Math.exp((low + high) / 2)
+}
+
+export function calibrate(samples: CalibrationSample[], unmatchedLabels: Record<string, number>): CalibrationResult {
+  const temperature = fitTemperature(samples)
+  return {
+    temperature,
+    sampleCount: samples.length,
+    unmatchedLabels,
+    accuracy: accuracy(samples),
+    nllBefore: negativeLogLikelihood(samples, 1),
+    nllAfter: negativeLogLikelihood(samples, temperature),
+    confidenceBefore: meanConfidence(samples, 1),
+    confidenceAfter: meanConfidence(samples, temperature),
+  }
+}
+
+// The label of a calibration image: its folder name when a folder was picked, otherwise the
+// file name up to the first "." or "-<number>", so "tabby-3.jpg" and "tabby/IMG_01.jpg" are both "tabby"
+export function labelFromFile(file: File): string {
+  const parts = (file.webkitRelativePath || file.name).split("/")
+  if (parts.length > 1) {
+    return parts[parts.length - 2]
+  }
+  return file.name.replace(/\.[^.]+$/, "").replace(/[-_ ]?\d+$/, "")
+}
+
+// Match a label to a class index by name (ignoring case, "_" and "-") or by a plain class number
+export function matchLabel(label: string, names: string[]): number | null {
+  if (/^\d+$/.test(label)) {
+    const index = Number(label)
+    return index < names.length ? index : null
+  }
+
+  const normalized = normalizeLabel(label)
+  const index = names.findIndex((name) => normalizeLabel(name) === normalized)
+  return index >= 0 ? index : null
+}
+
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ").trim()
+}
+
+function argmax(values: ArrayLike<number>): number {
+  let best = 0
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i
+  }
+  return best
+}
@@ -0,0 +1,115 @@
+import { ModelLoadError } from "./errors"
+import { type ModelDescriptor, type ModelFormat, getModelDescriptor, registerModel } from "./model-registry"
+import { inspectModelInWorker, unloadWorkerModel } from "./inference-client"
+import { formatBytes } from "./utils"
+import { type LabelSource, checkLabelCount, parseLabels } from "./labels"
+import { DEFAULT_PREPROCESSING } from "./preprocessing"
+import { type NormalizationSpec, describeNormalization } from "./normalization"
+
+// Bring-your-own models: a model.json, its .bin weight shards and a labels file picked from disk.
+// The inference worker loads the model once to validate it; it is then registered as a session model,
+// so the loader, selector and results view treat it like any built-in model.
+
+export type CustomModelFiles = {
+  modelJson: File
+  weights: File[]
+  labels: File
+}
+
+export type CustomModelOptions = {
+  name?: string
+  normalization: NormalizationSpec
+  // Index 0 of the model output is a background class that the labels file doesn't list
+  hasBackgroundClass?: boolean
+}
+
+// Work out which of the dropped files is the topology, which are weights and which are labels
+export async function sortModelFiles(files: File[]): Promise<CustomModelFiles> {
+  const weights = files.filter((file) => file.name.endsWith(".bin"))
+  const others = files.filter((file) => !file.name.endsWith(".bin"))
+
+  let modelJson: File | undefined
+  for (const file of others.filter((candidate) => candidate.name.endsWith(".json"))) {
+    if (await isModelJson(file)) {
+      modelJson = file
+      break
+    }
+  }
+
+  const labels = others.find((file) => file !== modelJson)
+
+  if (!modelJson) {
+    throw new ModelLoadError("No model.json with a model topology was found among the files", "format", "custom")
+  }
+  if (weights.length === 0) {
+    throw new ModelLoadError("No .bin weight shards were found among the files", "format", "custom")
+  }
+  if (!labels) {
+    throw new ModelLoadError("No labels file was found among the files", "format", "custom")
+  }
+
+  return { modelJson, weights, labels }
+}
+
+export async function createCustomModel(files: CustomModelFiles, options: CustomModelOptions): Promise<ModelDescriptor> {
+  const name = options.name?.trim() || files.modelJson.name.replace(/\.json$/, "")
+  const id = uniqueId(name)
+
+  const topology = JSON.parse(await files.modelJson.text())
+  const format: ModelFormat =
+    topology.format === "graph-model" || Array.isArray(topology.modelTopology?.node) ? "graph" : "layers"
+
+  const labels = parseLabels(await files.labels.text())
+  if (labels.length === 0) {
+    throw new ModelLoadError(`The labels file ${files.labels.name} contains no labels`, "format", id)
+  }
+
+  const modelFiles = [files.modelJson, ...files.weights]
+  const { inputShape, outputSize } = await inspectModelInWorker(modelFiles, format, id)
+  const labelSource: LabelSource = { type: "inline", labels, hasBackgroundClass: options.hasBackgroundClass }
+  checkLabelCount(labels.length + (options.hasBackgroundClass ? 1 : 0), outputSize, name, labelSource)
+
+  const descriptor: ModelDescriptor = {
+    id,
+    name,
+    version: "session",
+    url: `local://${files.modelJson.name}`,
+    files: modelFiles,
+    format,
+    inputShape,
+    preprocessing: DEFAULT_PREPROCESSING,
+    normalization: options.normalization,
+    labels: labelSource,
+    numClasses: outputSize,
+    size: formatBytes(modelFiles.reduce((sum, file) => sum + file.size, 0)),
+    card: {
+      description: `Custom model uploaded from ${files.modelJson.name}`,
+      accuracy: "Unknown",
+      speed: "Unknown",
+      details: `A ${format} model with ${labels.length} classes loaded from local files. It is available until the page is reloaded.`,
+      preprocessing: `Normalized with ${describeNormalization(options.normalization)}, as chosen when uploading.`,
+    },
+  }
+
+  unloadWorkerModel(id)
+  registerModel(descriptor)
+  return descriptor
+}
+
+async function isModelJson(file: File): Promise<boolean> {
+  try {
+    const json = JSON.parse(await file.text())
+    return Boolean(json.modelTopology && json.weightsManifest)
+  } catch {
+    return false
+  }
+}
+
+function uniqueId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "model"
+  let id = `custom-${slug}`
+  for (let i = 2; getModelDescriptor(id) && !getModelDescriptor(id)?.files; i++) {
+    id = `custom-${slug}-${i}`
+  }
+  return id
+}
@@ -0,0 +1,47 @@
+import * as tf from "@tensorflow/tfjs"
+import type { ClassifierModel } from "./model"
+import type { ModelDescriptor } from "./model-registry"
+import { resolveLabels } from "./labels"
+
+// Fake model used only when demo mode is switched on in the settings.
+// Its output is deterministic noise derived from the input pixels, so results
+// produced with it must always be labeled as demo results and it is never
+// stored in the real model cache.
+export async function createDemoModel(descriptor: ModelDescriptor): Promise<ClassifierModel> {
+  return {
+    id: descriptor.id,
+    format: descriptor.format,
+    isDemo: true,
+    labels: await resolveLabels(descriptor.labels, descriptor.numClasses, descriptor.id),
+    io: {
+      inputShape: descriptor.inputShape,
+      inputDtype: "float32",
+      outputSize: descriptor.numClasses,
+      outputKind: "probabilities",
+      batchSize: null,
+    },
+    predict: async (input: tf.Tensor) =>
+      tf.tidy(() => {
+        const batchSize = input.shape[0] || 1
+        const numClasses = descriptor.numClasses
+
+        // Create random but deterministic predictions based on input
+        const inputSum = tf.sum(input).dataSync()[0]
+        const seed = Math.floor(Math.abs(inputSum) * 1000) % 1000
+
+        const predictions = Array(numClasses)
+          .fill(0)
+          .map((_, i) => {
+            const val = Math.sin(i * seed + i) * 0.5 + 0.5
+            return val * val
+          })
+
+        const sum = predictions.reduce((a, b) => a + b, 0)
+        const normalized = predictions.map((v) => v / sum)
+
+        return tf.tensor2d(Array(batchSize).fill(normalized), [batchSize, numClasses])
+      }),
+    dispose: () => {},
+    sizeBytes: 0,
+  }
+}
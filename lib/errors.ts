@@ -0,0 +1,91 @@
+// Typed errors for model loading and inference, so the UI can explain what went wrong
+
+export type ModelErrorKind = "network" | "format" | "shape" | "backend" | "labels" | "cancelled" | "unknown"
+
+export type ModelErrorStage = "load" | "inference"
+
+export class ModelError extends Error {
+  readonly kind: ModelErrorKind
+  readonly stage: ModelErrorStage
+  readonly modelId: string
+
+  constructor(message: string, kind: ModelErrorKind, stage: ModelErrorStage, modelId: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "ModelError"
+    this.kind = kind
+    this.stage = stage
+    this.modelId = modelId
+  }
+}
+
+export class ModelLoadError extends ModelError {
+  constructor(message: string, kind: ModelErrorKind, modelId: string, options?: { cause?: unknown }) {
+    super(message, kind, "load", modelId, options)
+    this.name = "ModelLoadError"
+  }
+}
+
+export class InferenceError extends ModelError {
+  constructor(message: string, kind: ModelErrorKind, modelId: string, options?: { cause?: unknown }) {
+    super(message, kind, "inference", modelId, options)
+    this.name = "InferenceError"
+  }
+}
+
+// Best-effort mapping of TF.js / fetch error messages to an error kind
+export function detectErrorKind(error: unknown): ModelErrorKind {
+  if (error instanceof ModelError) {
+    return error.kind
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof Error && error.name === "AbortError") {
+    return "cancelled"
+  }
+  if (/failed to fetch|networkerror|network request|status code|load failed|err_internet/i.test(message)) {
+    return "network"
+  }
+  if (/shape|rank|dimension|expected .* to have/i.test(message)) {
+    return "shape"
+  }
+  if (/webgl|backend|wasm|gpu|context lost/i.test(message)) {
+    return "backend"
+  }
+  if (/json|topology|weightsmanifest|unknown layer|unsupported|format|op:/i.test(message)) {
+    return "format"
+  }
+
+  return "unknown"
+}
+
+export function toModelLoadError(error: unknown, modelId: string): ModelLoadError {
+  if (error instanceof ModelLoadError) {
+    return error
+  }
+
+  const detail = error instanceof Error ? error.message : String(error)
+  return new ModelLoadError(`Failed to load ${modelId}: ${detail}`, detectErrorKind(error), modelId, { cause: error })
+}
+
+export function toInferenceError(error: unknown, modelId: string): InferenceError {
+  if (error instanceof InferenceError) {
+    return error
+  }
+
+  const detail = error instanceof Error ? error.message : String(error)
+  return new InferenceError(`Inference with ${modelId} failed: ${detail}`, detectErrorKind(error), modelId, {
+    cause: error,
+  })
+}
+
+// Short titles shown in the results view for each kind of failure
+export const errorKindTitles: Record<ModelErrorKind, string> = {
+  network: "Network error",
+  format: "Unsupported model format",
+  shape: "Input shape mismatch",
+  backend: "TensorFlow.js backend error",
+  labels: "Label mismatch",
+  cancelled: "Loading cancelled",
+  unknown: "Classification failed",
+}
@@ -0,0 +1,76 @@
+// Minimal JPEG header reader: just enough EXIF to know how a photo should be rotated.
+
+export type JpegHeader = {
+  // EXIF orientation, 1-8; 1 means the pixels are stored upright
+  orientation: number
+  // Dimensions of the stored pixels, before orientation is applied
+  width: number
+  height: number
+}
+
+// EXIF and the frame header sit near the start of the file
+const HEADER_BYTES = 128 * 1024
+
+const EXIF_SIGNATURE = 0x45786966 // "Exif"
+const ORIENTATION_TAG = 0x0112
+
+// Returns null for anything that isn't a readable JPEG
+export async function readJpegHeader(blob: Blob): Promise<JpegHeader | null> {
+  const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer())
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return null
+  }
+
+  let orientation = 1
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00) {
+      return null
+    }
+    const length = view.getUint16(offset + 2)
+
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === EXIF_SIGNATURE) {
+      orientation = readOrientation(view, offset + 10) ?? 1
+    } else if (isStartOfFrame(marker)) {
+      if (offset + 9 > view.byteLength) {
+        return null
+      }
+      return { orientation, height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) }
+    }
+
+    offset += 2 + length
+  }
+
+  return null
+}
+
+// SOF0-SOF15, except DHT (c4), JPG (c8) and DAC (cc) which share the range
+function isStartOfFrame(marker: number): boolean {
+  return marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc
+}
+
+// Look the orientation tag up in IFD0 of the TIFF block that starts at `tiff`
+function readOrientation(view: DataView, tiff: number): number | null {
+  if (tiff + 8 > view.byteLength) {
+    return null
+  }
+  const littleEndian = view.getUint16(tiff) === 0x4949
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+  if (ifd + 2 > view.byteLength) {
+    return null
+  }
+
+  const entries = view.getUint16(ifd, littleEndian)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > view.byteLength) {
+      return null
+    }
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, littleEndian)
+      return orientation >= 1 && orientation <= 8 ? orientation : null
+    }
+  }
+  return null
+}
@@ -0,0 +1,342 @@
+// Pure-JS GIF decoder, used for animated GIFs where WebCodecs' ImageDecoder is unavailable.
+// Frames are composited the way browsers play them (offsets, transparency and disposal),
+// so every decoded frame is a full image.
+
+export type GifFrame = {
+  pixels: ImageData
+  index: number
+  // Start time and display time, in milliseconds
+  timestamp: number
+  delay: number
+}
+
+// Browsers play delays under 20ms at 100ms
+const MIN_DELAY_MS = 20
+const DEFAULT_DELAY_MS = 100
+
+type GraphicControl = {
+  delay: number
+  disposal: number
+  transparentIndex: number | null
+}
+
+type FrameRect = { left: number; top: number; width: number; height: number }
+
+class GifReader {
+  offset = 0
+
+  constructor(private bytes: Uint8Array) {}
+
+  get remaining() {
+    return this.bytes.length - this.offset
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("Unexpected end of GIF data")
+    }
+    return this.bytes[this.offset++]
+  }
+
+  uint16(): number {
+    return this.byte() | (this.byte() << 8)
+  }
+
+  read(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of GIF data")
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return slice
+  }
+
+  // Concatenated data of a run of length-prefixed sub-blocks
+  subBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = []
+    let total = 0
+    for (let size = this.byte(); size > 0; size = this.byte()) {
+      const chunk = this.read(size)
+      chunks.push(chunk)
+      total += size
+    }
+    const data = new Uint8Array(total)
+    let position = 0
+    for (const chunk of chunks) {
+      data.set(chunk, position)
+      position += chunk.length
+    }
+    return data
+  }
+
+  skipSubBlocks() {
+    for (let size = this.byte(); size > 0; size = this.byte()) {
+      this.read(size)
+    }
+  }
+}
+
+export function isGif(bytes: Uint8Array): boolean {
+  return bytes.length >= 6 && String.fromCharCode(...Array.from(bytes.subarray(0, 6))).match(/^GIF8[79]a$/) !== null
+}
+
+// Number of frames, without decoding any pixels
+export function countGifFrames(buffer: ArrayBuffer): number {
+  let count = 0
+  walkGif(new Uint8Array(buffer), false, () => count++)
+  return count
+}
+
+// Decode the frames whose index passes `keep` (all of them by default).
+// Every frame is still decoded, since later frames are drawn on top of earlier ones.
+export function decodeGif(buffer: ArrayBuffer, keep: (index: number) => boolean = () => true): GifFrame[] {
+  const bytes = new Uint8Array(buffer)
+  const { width, height } = readScreen(new GifReader(bytes))
+  const canvas = new Uint8ClampedArray(width * height * 4)
+  const frames: GifFrame[] = []
+
+  // What the previous frame asked to happen to its area before the next one is drawn
+  let disposal: { mode: number; rect: FrameRect; saved: Uint8ClampedArray | null } | null = null
+  let timestamp = 0
+
+  walkGif(bytes, true, (index, rect, control, palette, indices) => {
+    if (disposal?.mode === 2) {
+      clearRect(canvas, width, disposal.rect)
+    } else if (disposal?.mode === 3 && disposal.saved) {
+      canvas.set(disposal.saved)
+    }
+
+    const saved = control.disposal === 3 ? canvas.slice() : null
+    drawFrame(canvas, width, height, rect, palette, indices!, control.transparentIndex)
+    disposal = { mode: control.disposal, rect, saved }
+
+    const delay = control.delay < MIN_DELAY_MS ? DEFAULT_DELAY_MS : control.delay
+    if (keep(index)) {
+      frames.push({ pixels: new ImageData(canvas.slice(), width, height), index, timestamp, delay })
+    }
+    timestamp += delay
+  })
+
+  return frames
+}
+
+// Header and logical screen descriptor
+function readScreen(reader: GifReader) {
+  if (!isGif(reader.read(6))) {
+    throw new Error("Not a GIF file")
+  }
+  const width = reader.uint16()
+  const height = reader.uint16()
+  const flags = reader.byte()
+  // Background color index and pixel aspect ratio
+  reader.read(2)
+  return { width, height, flags }
+}
+
+// Walk every image in the file; its pixel indices are only decoded when `decodePixels` is set
+function walkGif(
+  bytes: Uint8Array,
+  decodePixels: boolean,
+  visit: (
+    index: number,
+    rect: FrameRect,
+    control: GraphicControl,
+    palette: Uint8Array,
+    indices: Uint8Array | null,
+  ) => void,
+) {
+  const reader = new GifReader(bytes)
+  const { flags: screenFlags } = readScreen(reader)
+  const globalPalette = screenFlags & 0x80 ? reader.read(3 * (2 << (screenFlags & 7))) : new Uint8Array(0)
+
+  let control: GraphicControl = { delay: 0, disposal: 0, transparentIndex: null }
+  let index = 0
+
+  while (reader.remaining > 0) {
+    const introducer = reader.byte()
+
+    if (introducer === 0x3b) {
+      // Trailer
+      break
+    }
+
+    if (introducer === 0x21) {
+      const label = reader.byte()
+      if (label === 0xf9) {
+        const block = reader.subBlocks()
+        if (block.length >= 4) {
+          control = {
+            disposal: (block[0] >> 2) & 7,
+            delay: (block[1] | (block[2] << 8)) * 10,
+            transparentIndex: block[0] & 1 ? block[3] : null,
+          }
+        }
+      } else {
+        reader.skipSubBlocks()
+      }
+      continue
+    }
+
+    if (introducer !== 0x2c) {
+      throw new Error(`Unexpected GIF block 0x${introducer.toString(16)}`)
+    }
+
+    const rect = { left: reader.uint16(), top: reader.uint16(), width: reader.uint16(), height: reader.uint16() }
+    const flags = reader.byte()
+    const palette = flags & 0x80 ? reader.read(3 * (2 << (flags & 7))) : globalPalette
+    const minCodeSize = reader.byte()
+
+    if (decodePixels) {
+      let indices = lzwDecode(minCodeSize, reader.subBlocks(), rect.width * rect.height)
+      if (flags & 0x40) {
+        indices = deinterlace(indices, rect.width, rect.height)
+      }
+      visit(index, rect, control, palette, indices)
+    } else {
+      reader.skipSubBlocks()
+      visit(index, rect, control, palette, null)
+    }
+
+    control = { delay: 0, disposal: 0, transparentIndex: null }
+    index++
+  }
+}
+
+function lzwDecode(minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount)
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+
+  const prefix = new Int16Array(4096)
+  const suffix = new Uint8Array(4096)
+  const stack = new Uint8Array(4097)
+  for (let code = 0; code < clearCode; code++) {
+    prefix[code] = -1
+    suffix[code] = code
+  }
+
+  let codeSize = minCodeSize + 1
+  let codeMask = (1 << codeSize) - 1
+  let nextCode = endCode + 1
+  let previous = -1
+  let first = 0
+  let position = 0
+  let buffer = 0
+  let bits = 0
+
+  for (let i = 0; i < data.length && position < pixelCount; i++) {
+    buffer |= data[i] << bits
+    bits += 8
+
+    while (bits >= codeSize && position < pixelCount) {
+      const code = buffer & codeMask
+      buffer >>= codeSize
+      bits -= codeSize
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1
+        codeMask = (1 << codeSize) - 1
+        nextCode = endCode + 1
+        previous = -1
+        continue
+      }
+      if (code === endCode) {
+        return output
+      }
+      if (previous === -1) {
+        first = suffix[code]
+        output[position++] = first
+        previous = code
+        continue
+      }
+
+      let current = code
+      let top = 0
+      // A code not in the table yet is the previous string plus its own first byte
+      if (code >= nextCode) {
+        stack[top++] = first
+        current = previous
+      }
+      while (current >= clearCode) {
+        stack[top++] = suffix[current]
+        current = prefix[current]
+      }
+      first = suffix[current]
+      stack[top++] = first
+
+      if (nextCode < 4096) {
+        prefix[nextCode] = previous
+        suffix[nextCode] = first
+        nextCode++
+        if (nextCode > codeMask && codeSize < 12) {
+          codeSize++
+          codeMask = (1 << codeSize) - 1
+        }
+      }
+      previous = code
+
+      while (top > 0 && position < pixelCount) {
+        output[position++] = stack[--top]
+      }
+    }
+  }
+
+  return output
+}
+
+// Interlaced images store rows in four passes: every 8th from 0, every 8th from 4, every 4th from 2, every 2nd from 1
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+  const output = new Uint8Array(indices.length)
+  const passes = [
+    [0, 8],
+    [4, 8],
+    [2, 4],
+    [1, 2],
+  ]
+  let row = 0
+  for (const [start, step] of passes) {
+    for (let y = start; y < height; y += step) {
+      output.set(indices.subarray(row * width, (row + 1) * width), y * width)
+      row++
+    }
+  }
+  return output
+}
+
+function drawFrame(
+  canvas: Uint8ClampedArray,
+  width: number,
+  height: number,
+  rect: FrameRect,
+  palette: Uint8Array,
+  indices: Uint8Array,
+  transparentIndex: number | null,
+) {
+  for (let y = 0; y < rect.height; y++) {
+    const canvasY = rect.top + y
+    if (canvasY >= height) break
+
+    for (let x = 0; x < rect.width; x++) {
+      const canvasX = rect.left + x
+      if (canvasX >= width) break
+
+      const colorIndex = indices[y * rect.width + x]
+      if (colorIndex === transparentIndex || colorIndex * 3 + 2 >= palette.length) continue
+
+      const target = (canvasY * width + canvasX) * 4
+      canvas[target] = palette[colorIndex * 3]
+      canvas[target + 1] = palette[colorIndex * 3 + 1]
+      canvas[target + 2] = palette[colorIndex * 3 + 2]
+      canvas[target + 3] = 255
+    }
+  }
+}
+
+function clearRect(canvas: Uint8ClampedArray, width: number, rect: FrameRect) {
+  const height = canvas.length / 4 / width
+  for (let y = rect.top; y < Math.min(height, rect.top + rect.height); y++) {
+    const start = (y * width + rect.left) * 4
+    const end = (y * width + Math.min(width, rect.left + rect.width)) * 4
+    canvas.fill(0, start, end)
+  }
+}
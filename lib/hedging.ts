@@ -0,0 +1,95 @@
+// Hierarchical roll-up: every node of the label hierarchy gets the summed probability of the classes
+// below it. A model split between five retriever breeds is then still near-certain it sees a dog, and
+// a hedged prediction falls back to the most specific node that reaches the user's confidence target.
+
+export type HedgingSettings = {
+  enabled: boolean
+  // Probability the hedged answer must reach, 0.5 to 0.99
+  confidenceTarget: number
+}
+
+// A class, or a hypernym with the probability of every class below it
+export type HierarchyNode = {
+  name: string
+  probability: number
+  // Ancestors, most general first
+  path: string[]
+  // Set when the node is a class rather than one of its hypernyms
+  classIndex?: number
+}
+
+export type HedgedSummary = {
+  confidenceTarget: number
+  // Most specific node at or above the target; null when even the most general ones fall short
+  answer: HierarchyNode | null
+  // The top class and its hypernyms from the answer down, showing where the probability thins out
+  chain: HierarchyNode[]
+}
+
+export const confidenceTargetOptions = [0.5, 0.75, 0.9, 0.95, 0.99]
+
+// Sum the class probabilities into every hypernym on their paths
+export function rollUpProbabilities(
+  probabilities: Float32Array,
+  pathOf: (classIndex: number) => string[],
+): Map<string, HierarchyNode> {
+  const nodes = new Map<string, HierarchyNode>()
+  for (let classIndex = 0; classIndex < probabilities.length; classIndex++) {
+    const path = pathOf(classIndex)
+    path.forEach((name, depth) => {
+      const node = nodes.get(name)
+      if (node) {
+        node.probability += probabilities[classIndex]
+      } else {
+        nodes.set(name, { name, probability: probabilities[classIndex], path: path.slice(0, depth) })
+      }
+    })
+  }
+  return nodes
+}
+
+// The deepest class or hypernym whose probability reaches the target; ties go to the more probable one
+export function hedgePrediction(
+  probabilities: Float32Array,
+  labels: { names: string[]; pathOf: (classIndex: number) => string[] },
+  confidenceTarget: number,
+): HedgedSummary {
+  const nodes = rollUpProbabilities(probabilities, labels.pathOf)
+
+  let topIndex = 0
+  for (let i = 1; i < probabilities.length; i++) {
+    if (probabilities[i] > probabilities[topIndex]) {
+      topIndex = i
+    }
+  }
+  const top: HierarchyNode = {
+    name: labels.names[topIndex] || `Class ${topIndex}`,
+    probability: probabilities[topIndex],
+    path: labels.pathOf(topIndex),
+    classIndex: topIndex,
+  }
+
+  let answer: HierarchyNode | null = top.probability >= confidenceTarget ? top : null
+  if (!answer) {
+    for (const node of nodes.values()) {
+      if (
+        node.probability >= confidenceTarget &&
+        (!answer ||
+          node.path.length > answer.path.length ||
+          (node.path.length === answer.path.length && node.probability > answer.probability))
+      ) {
+        answer = node
+      }
+    }
+  }
+
+  // The answer may also be a group the top class isn't in, when many small classes outweigh it
+  let chain: HierarchyNode[] = []
+  if (answer === top) {
+    chain = [top]
+  } else if (answer && top.path.includes(answer.name)) {
+    chain = [...top.path.slice(top.path.indexOf(answer.name)).map((name) => nodes.get(name)!), top]
+  }
+
+  return { confidenceTarget, answer, chain }
+}
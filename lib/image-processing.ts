@@ -1,122 +1,118 @@
-
 // Browser-compatible image processing utilities
-import { modelMetadata } from "./model"
-
-export async function resizeImage(imageUrl: string, width: number, height: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    img.onload = () => {
-      try {
-        const canvas = document.createElement("canvas")
-        canvas.width = width
-        canvas.height = height
-        const ctx = canvas.getContext("2d")
-
-        if (!ctx) {
-          reject(new Error("Could not get canvas context"))
-          return
-        }
-
-        // Draw image with resizing
-        ctx.drawImage(img, 0, 0, width, height)
-
-        // Get data URL
-        resolve(canvas.toDataURL("image/png"))
-      } catch (error) {
-        console.error("Error resizing image:", error)
-        reject(error)
-      }
-    }
-    img.onerror = () => reject(new Error("Failed to load image"))
-    img.src = imageUrl
-  })
+import { type JpegHeader, readJpegHeader } from "./exif"
+
+// Every decode applies the EXIF orientation and converts embedded color profiles to sRGB,
+// so the preview, the preprocessing view and the model input all see the same pixels
+const DECODE_OPTIONS: ImageBitmapOptions = {
+  imageOrientation: "from-image",
+  colorSpaceConversion: "default",
+  premultiplyAlpha: "none",
 }
 
-export async function normalizeImage(imageUrl: string, width: number, height: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    img.onload = () => {
-      try {
-        const canvas = document.createElement("canvas")
-        canvas.width = width
-        canvas.height = height
-        const ctx = canvas.getContext("2d")
+// Whether this browser's createImageBitmap ignored EXIF orientation, once a rotated photo has shown it
+let ignoresOrientation: boolean | null = null
 
-        if (!ctx) {
-          reject(new Error("Could not get canvas context"))
-          return
-        }
+// Decode an image URL (data:, blob: or http) into an ImageBitmap that can be transferred to the inference worker
+export async function decodeImage(imageUrl: string): Promise<ImageBitmap> {
+  return decodeImageBlob(await fetchImage(imageUrl))
+}
 
-        // Draw image
-        ctx.drawImage(img, 0, 0, width, height)
+export async function fetchImage(imageUrl: string): Promise<Blob> {
+  const response = await fetch(imageUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to load image (status ${response.status})`)
+  }
+  return response.blob()
+}
 
-        // Get image data for processing
-        const imageData = ctx.getImageData(0, 0, width, height)
-        const data = imageData.data
+// Decode an image file upright and in sRGB. Browsers that don't honor imageOrientation
+// get the EXIF rotation applied here instead.
+export async function decodeImageBlob(blob: Blob): Promise<ImageBitmap> {
+  const [bitmap, header] = await Promise.all([createImageBitmap(blob, DECODE_OPTIONS), readJpegHeader(blob)])
+  if (!header || header.orientation === 1 || !orientationIgnored(bitmap, header)) {
+    return bitmap
+  }
 
-        // Simple normalization (this is visual only, not the actual model preprocessing)
-        for (let i = 0; i < data.length; i += 4) {
-          // Normalize RGB values
-          data[i] = (data[i] / 255) * 255 // R
-          data[i + 1] = (data[i + 1] / 255) * 255 // G
-          data[i + 2] = (data[i + 2] / 255) * 255 // B
-          // Alpha remains unchanged
-        }
+  try {
+    return orientBitmap(bitmap, header.orientation)
+  } finally {
+    bitmap.close()
+  }
+}
 
-        // Put the processed data back
-        ctx.putImageData(imageData, 0, 0)
+// Decode an image and shrink it, keeping its aspect ratio, until it just covers width×height.
+// Used for batches of images that are all transferred at once, where full-size bitmaps would add up.
+export async function decodeImageBlobToCover(blob: Blob, width: number, height: number): Promise<ImageBitmap> {
+  const bitmap = await decodeImageBlob(blob)
+  const scale = Math.max(width / bitmap.width, height / bitmap.height)
+  if (scale >= 1) {
+    return bitmap
+  }
 
-        // Get data URL
-        resolve(canvas.toDataURL("image/png"))
-      } catch (error) {
-        console.error("Error normalizing image:", error)
-        reject(error)
-      }
-    }
-    img.onerror = () => reject(new Error("Failed to load image"))
-    img.src = imageUrl
-  })
+  try {
+    return await createImageBitmap(bitmap, {
+      resizeWidth: Math.max(1, Math.round(bitmap.width * scale)),
+      resizeHeight: Math.max(1, Math.round(bitmap.height * scale)),
+      resizeQuality: "high",
+    })
+  } finally {
+    bitmap.close()
+  }
 }
 
-export async function generatePreprocessingSteps(
-  imageUrl: string,
-  modelId = "mobilenet",
-): Promise<{
-  original: string
-  resized: string
-  normalized: string
-}> {
+// Decode an upload once and re-encode the corrected pixels as a PNG object URL.
+// The preview, the preprocessing view and the worker all read this URL. Revoke it when replaced.
+export async function createUprightImageUrl(file: Blob): Promise<string> {
+  const bitmap = await decodeImageBlob(file)
   try {
-    const metadata = modelMetadata[modelId as keyof typeof modelMetadata] || modelMetadata.mobilenet
-    const inputSize = metadata.inputSize
-
-    // Original image (just use the original)
-    const original = imageUrl
-
-    // For display purposes, we'll use larger images
-    const displaySize = 300
-
-    // Resized image (to model input size, but scaled up for display)
-    const resizedSmall = await resizeImage(imageUrl, inputSize, inputSize)
-    const resized = await resizeImage(resizedSmall, displaySize, displaySize)
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0)
+    return URL.createObjectURL(await canvas.convertToBlob({ type: "image/png" }))
+  } finally {
+    bitmap.close()
+  }
+}
 
-    // Normalized image (visual representation)
-    const normalized = await normalizeImage(resized, displaySize, displaySize)
+// Quarter turns show up as swapped dimensions, which tells us whether the browser rotated the bitmap.
+// Flips and half turns keep the dimensions, so those rely on what an earlier rotated photo showed.
+function orientationIgnored(bitmap: ImageBitmap, header: JpegHeader): boolean {
+  if (header.orientation >= 5 && header.width !== header.height) {
+    ignoresOrientation = bitmap.width === header.width && bitmap.height === header.height
+  }
+  return ignoresOrientation ?? false
+}
 
-    return {
-      original,
-      resized,
-      normalized,
-    }
-  } catch (error) {
-    console.error("Error generating preprocessing steps:", error)
-    // Return the original image for all steps as fallback
-    return {
-      original: imageUrl,
-      resized: imageUrl,
-      normalized: imageUrl,
-    }
+// Draw the stored pixels with the EXIF orientation's transform applied
+function orientBitmap(bitmap: ImageBitmap, orientation: number): ImageBitmap {
+  const { width, height } = bitmap
+  const swapsAxes = orientation >= 5
+  const canvas = new OffscreenCanvas(swapsAxes ? height : width, swapsAxes ? width : height)
+  const context = canvas.getContext("2d")!
+
+  switch (orientation) {
+    case 2:
+      context.setTransform(-1, 0, 0, 1, width, 0)
+      break
+    case 3:
+      context.setTransform(-1, 0, 0, -1, width, height)
+      break
+    case 4:
+      context.setTransform(1, 0, 0, -1, 0, height)
+      break
+    case 5:
+      context.setTransform(0, 1, 1, 0, 0, 0)
+      break
+    case 6:
+      context.setTransform(0, 1, -1, 0, height, 0)
+      break
+    case 7:
+      context.setTransform(0, -1, -1, 0, height, width)
+      break
+    case 8:
+      context.setTransform(0, -1, 1, 0, 0, width)
+      break
   }
+
+  context.drawImage(bitmap, 0, 0)
+  return canvas.transferToImageBitmap()
 }
@@ -0,0 +1,198 @@
+import http, { type IncomingMessage, type ServerResponse } from "http"
+import https from "https"
+import dns from "dns"
+import { BlockList, type LookupFunction, isIP } from "net"
+import { IMAGE_PROXY_HEADER, IMAGE_PROXY_PATH, MAX_IMAGE_BYTES, isAcceptedImageType } from "./image-source"
+
+// Server side of the image proxy, mounted on the Vite dev and preview servers by vite.config.ts.
+// GET /api/image-proxy?url=<address> answers with the image bytes, or a plain-text reason and an error status.
+// Only public addresses are fetched: every hop of a redirect chain is checked, and the check happens in the
+// connection's own DNS lookup so a hostname can't resolve to a public address first and a private one later.
+
+const FETCH_TIMEOUT_MS = 15_000
+
+const MAX_REDIRECTS = 5
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+// Loopback, private, link-local, unique-local, unspecified, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges.
+const blockedAddresses = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and the deprecated IPv4-compatible addresses
+  ["::", 96],
+  // NAT64, which can reach any IPv4 address
+  ["64:ff9b::", 96],
+  // Teredo and 6to4 embed an IPv4 address too and are tunneled to it
+  ["2001::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6")
+}
+
+class ProxyError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = "ProxyError"
+  }
+}
+
+// Connect-style middleware; requests for other paths pass through to `next`
+export async function imageProxyMiddleware(request: IncomingMessage, response: ServerResponse, next: () => void) {
+  const requestUrl = new URL(request.url || "/", "http://localhost")
+  if (requestUrl.pathname !== IMAGE_PROXY_PATH) {
+    next()
+    return
+  }
+
+  // Lets the client tell the proxy's answers from a static host's fallback page
+  response.setHeader(IMAGE_PROXY_HEADER, "1")
+  try {
+    if (request.method !== "GET") {
+      throw new ProxyError("Only GET is supported", 405)
+    }
+    const { type, bytes } = await fetchImage(requestUrl.searchParams.get("url"))
+    response.writeHead(200, {
+      "Content-Type": type,
+      "Content-Length": bytes.byteLength,
+      "Cache-Control": "no-store",
+    })
+    response.end(bytes)
+  } catch (error) {
+    const status = error instanceof ProxyError ? error.status : 502
+    const message = error instanceof ProxyError ? error.message : "The image could not be downloaded"
+    response.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" })
+    response.end(message)
+  }
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address)
+  return family === 0 || blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+}
+
+async function fetchImage(address: string | null): Promise<{ type: string; bytes: Buffer }> {
+  let url = parseTarget(address)
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+
+  try {
+    for (let hop = 0; ; hop++) {
+      const upstream = await get(url, signal)
+      const location = upstream.headers.location
+      if (REDIRECT_STATUSES.includes(upstream.statusCode || 0) && location) {
+        upstream.resume()
+        if (hop === MAX_REDIRECTS) {
+          throw new ProxyError("The image address redirects too many times", 502)
+        }
+        url = parseTarget(new URL(location, url).href)
+        continue
+      }
+
+      if (upstream.statusCode !== 200) {
+        upstream.resume()
+        throw new ProxyError(`The image server answered with status ${upstream.statusCode}`, 502)
+      }
+
+      const type = upstream.headers["content-type"] || ""
+      if (!isAcceptedImageType(type)) {
+        upstream.resume()
+        throw new ProxyError(`${type || "The response"} is not a supported image type`, 415)
+      }
+      if (Number(upstream.headers["content-length"]) > MAX_IMAGE_BYTES) {
+        upstream.destroy()
+        throw new ProxyError("The image is larger than 10MB", 413)
+      }
+
+      return { type, bytes: await readLimited(upstream) }
+    }
+  } catch (error) {
+    if (signal.aborted && !(error instanceof ProxyError)) {
+      throw new ProxyError("The image server did not answer in time", 504)
+    }
+    throw error
+  }
+}
+
+function parseTarget(address: string | null): URL {
+  let url: URL
+  try {
+    url = new URL(address || "")
+  } catch {
+    throw new ProxyError("Give a full image address, starting with http:// or https://", 400)
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ProxyError("Only http and https addresses can be loaded", 400)
+  }
+  // Literal addresses never go through the DNS lookup, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, "")
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new ProxyError("Images on local or private network addresses can't be loaded", 403)
+  }
+  return url
+}
+
+// Resolve like the default lookup, but refuse hostnames with any local or private address
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0)
+      return
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new ProxyError("Images on local or private network addresses can't be loaded", 403), "", 0)
+      return
+    }
+    if (options.all) {
+      ;(callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+// A single request without following redirects
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http
+    client
+      .get(url, { headers: { Accept: "image/*" }, lookup: publicLookup, signal }, resolve)
+      .on("error", reject)
+  })
+}
+
+// Read the body but stop as soon as it passes the limit, since Content-Length may be missing or wrong
+async function readLimited(upstream: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of upstream as AsyncIterable<Buffer>) {
+    size += chunk.byteLength
+    if (size > MAX_IMAGE_BYTES) {
+      upstream.destroy()
+      throw new ProxyError("The image is larger than 10MB", 413)
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,124 @@
+import * as tf from "@tensorflow/tfjs"
+import { HISTOGRAM_BINS, type ImageQuality, qualityWarnings } from "./image-quality"
+
+// Measurements behind the image quality checks, run in the inference worker before classification
+
+// Blur and exposure are measured on a copy no larger than this, so the cost doesn't grow with the photo
+const ANALYSIS_SIZE = 512
+// Blocking is measured at full resolution on a central crop of at most this size
+const BLOCK_CROP_SIZE = 1024
+// Below this on either side there are too few pixels for a Laplacian or a pair of 8x8 blocks
+const MIN_MEASURABLE_SIZE = 16
+
+const LUMA_WEIGHTS = [0.299, 0.587, 0.114]
+
+export async function analyzeImageQuality(
+  image: ImageBitmap | OffscreenCanvas,
+  [inputHeight, inputWidth]: [number, number, number],
+): Promise<ImageQuality> {
+  const { width, height } = image
+  // Only the downscaled copy and the crop are read into tensors, never the full-resolution image
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / ANALYSIS_SIZE))
+  const smallWidth = Math.max(1, Math.floor(width / factor))
+  const smallHeight = Math.max(1, Math.floor(height / factor))
+  // A very narrow image can also shrink below the Laplacian's 3x3 kernel when downscaled
+  const measurable = Math.min(width, height) >= MIN_MEASURABLE_SIZE && Math.min(smallWidth, smallHeight) >= 3
+
+  const small = readRegion(image, [0, 0, width, height], [smallWidth, smallHeight])
+  const crop = measurable ? readRegion(image, blockCrop(width, height)) : null
+
+  const luma = tf.tidy(() => toLuma(small))
+  const edges = crop ? tf.tidy(() => ({ blur: laplacianVariance(luma), ...edgeProfiles(toLuma(crop)) })) : null
+
+  try {
+    const blurScore = edges ? (await edges.blur.data())[0] : null
+    const exposure = exposureStats(await luma.data())
+    const blockiness = edges ? (blockRatio(await edges.columns.data()) + blockRatio(await edges.rows.data())) / 2 : null
+    const resolutionScale = Math.min(width / inputWidth, height / inputHeight)
+
+    const quality = { width, height, resolutionScale, blurScore, ...exposure, blockiness }
+    return { ...quality, warnings: qualityWarnings(quality, [inputHeight, inputWidth]) }
+  } finally {
+    tf.dispose([luma, ...(edges ? [edges.blur, edges.columns, edges.rows] : [])])
+  }
+}
+
+// Draw a region of the image at the given size, or at its own size for an exact copy of the pixels.
+// Reading through a canvas also leaves an OffscreenCanvas input intact for preprocessing.
+function readRegion(
+  image: ImageBitmap | OffscreenCanvas,
+  [left, top, width, height]: [number, number, number, number],
+  [outputWidth, outputHeight] = [width, height],
+): ImageData {
+  const canvas = new OffscreenCanvas(outputWidth, outputHeight)
+  const context = canvas.getContext("2d")!
+  context.imageSmoothingQuality = "high"
+  context.drawImage(image, left, top, width, height, 0, 0, outputWidth, outputHeight)
+  return context.getImageData(0, 0, outputWidth, outputHeight)
+}
+
+// Central crop starting on a multiple of 8, so JPEG block boundaries stay at (i + 1) % 8 === 0
+function blockCrop(width: number, height: number): [number, number, number, number] {
+  const cropWidth = Math.min(width, BLOCK_CROP_SIZE)
+  const cropHeight = Math.min(height, BLOCK_CROP_SIZE)
+  return [Math.floor((width - cropWidth) / 16) * 8, Math.floor((height - cropHeight) / 16) * 8, cropWidth, cropHeight]
+}
+
+function toLuma(pixels: ImageData): tf.Tensor2D {
+  return tf.browser.fromPixels(pixels, 3).toFloat().mul(tf.tensor1d(LUMA_WEIGHTS)).sum(-1) as tf.Tensor2D
+}
+
+function laplacianVariance(luma: tf.Tensor2D): tf.Scalar {
+  const kernel = tf.tensor4d([0, 1, 0, 1, -4, 1, 0, 1, 0], [3, 3, 1, 1])
+  const laplacian = tf.conv2d(luma.expandDims(-1) as tf.Tensor3D, kernel, 1, "valid")
+  return tf.moments(laplacian).variance as tf.Scalar
+}
+
+// Mean absolute difference between neighboring columns and between neighboring rows, averaged along the other axis
+function edgeProfiles(luma: tf.Tensor2D) {
+  const [height, width] = luma.shape
+  const columns = tf.abs(tf.sub(luma.slice([0, 1], [-1, -1]), luma.slice([0, 0], [-1, width - 1]))).mean(0)
+  const rows = tf.abs(tf.sub(luma.slice([1, 0], [-1, -1]), luma.slice([0, 0], [height - 1, -1]))).mean(1)
+  return { columns, rows }
+}
+
+// Mean edge strength across block boundaries over the mean everywhere else
+function blockRatio(profile: ArrayLike<number>): number {
+  let boundary = 0
+  let boundaryCount = 0
+  let inner = 0
+  let innerCount = 0
+  for (let i = 0; i < profile.length; i++) {
+    if ((i + 1) % 8 === 0) {
+      boundary += profile[i]
+      boundaryCount++
+    } else {
+      inner += profile[i]
+      innerCount++
+    }
+  }
+  if (boundaryCount === 0 || inner === 0) {
+    return 1
+  }
+  return boundary / boundaryCount / (inner / innerCount)
+}
+
+function exposureStats(luma: ArrayLike<number>) {
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0)
+  let sum = 0
+  let sumOfSquares = 0
+  for (let i = 0; i < luma.length; i++) {
+    const value = luma[i]
+    sum += value
+    sumOfSquares += value * value
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(value / (256 / HISTOGRAM_BINS)))]++
+  }
+
+  const count = Math.max(1, luma.length)
+  const brightness = sum / count
+  return {
+    brightness,
+    contrast: Math.sqrt(Math.max(0, sumOfSquares / count - brightness * brightness)),
+    histogram: histogram.map((bin) => bin / count),
+  }
+}
@@ -0,0 +1,95 @@
+// Quality checks on the decoded image, run before classification. Blurry, tiny, badly exposed
+// or heavily compressed images still get confident predictions, so these flag them instead.
+// The thresholds are heuristics tuned on ordinary photos, not hard limits. The measurements run in the
+// inference worker (image-quality-analysis.ts); this module only describes and judges them.
+
+export type QualityIssue = "blur" | "dark" | "overexposed" | "low-contrast" | "low-resolution" | "compression"
+
+export type QualityWarning = {
+  issue: QualityIssue
+  message: string
+}
+
+export type ImageQuality = {
+  width: number
+  height: number
+  // Smaller of width and height relative to the model input; below 1 the image gets upscaled
+  resolutionScale: number
+  // Variance of the Laplacian of the grayscale image; low means few sharp edges.
+  // Null, like blockiness, for images too small to measure
+  blurScore: number | null
+  // Mean and standard deviation of 0-255 luminance
+  brightness: number
+  contrast: number
+  // Fraction of pixels in each of 16 equal luminance bins
+  histogram: number[]
+  // Edge strength on 8x8 JPEG block boundaries relative to elsewhere; about 1 when there is no blocking
+  blockiness: number | null
+  warnings: QualityWarning[]
+}
+
+export const qualityIssueLabels: Record<QualityIssue, string> = {
+  blur: "Blurry",
+  dark: "Too dark",
+  overexposed: "Overexposed",
+  "low-contrast": "Low contrast",
+  "low-resolution": "Low resolution",
+  compression: "Heavy compression",
+}
+
+const BLUR_THRESHOLD = 100
+const DARK_MEAN = 40
+const BRIGHT_MEAN = 215
+// Share of pixels within 16 levels of black or white that counts as clipped
+const CLIPPED_FRACTION = 0.6
+const CONTRAST_THRESHOLD = 20
+const BLOCKINESS_THRESHOLD = 1.5
+
+export const HISTOGRAM_BINS = 16
+
+// The warnings for a set of measurements, given the model input size
+export function qualityWarnings(
+  quality: Omit<ImageQuality, "warnings">,
+  [inputHeight, inputWidth]: [number, number],
+): QualityWarning[] {
+  const warnings: QualityWarning[] = []
+  const { histogram } = quality
+
+  if (quality.resolutionScale < 1) {
+    warnings.push({
+      issue: "low-resolution",
+      message: `The image is ${quality.width}×${quality.height}, smaller than the model's ${inputWidth}×${inputHeight} input, so it is upscaled without adding detail.`,
+    })
+  }
+  // Blur and compression can't be measured on tiny images; exposure and contrast still can
+  if (quality.blurScore !== null && quality.blurScore < BLUR_THRESHOLD) {
+    warnings.push({
+      issue: "blur",
+      message: `The image looks blurry (sharpness ${Math.round(quality.blurScore)}, below ${BLUR_THRESHOLD}).`,
+    })
+  }
+  if (quality.brightness < DARK_MEAN || histogram[0] > CLIPPED_FRACTION) {
+    warnings.push({
+      issue: "dark",
+      message: `The image is very dark (mean brightness ${Math.round(quality.brightness)} of 255).`,
+    })
+  } else if (quality.brightness > BRIGHT_MEAN || histogram[HISTOGRAM_BINS - 1] > CLIPPED_FRACTION) {
+    warnings.push({
+      issue: "overexposed",
+      message: `The image is overexposed (mean brightness ${Math.round(quality.brightness)} of 255).`,
+    })
+  } else if (quality.contrast < CONTRAST_THRESHOLD) {
+    warnings.push({
+      issue: "low-contrast",
+      message: `The image has very little contrast (brightness spread ${Math.round(quality.contrast)}).`,
+    })
+  }
+  if (quality.blockiness !== null && quality.blockiness > BLOCKINESS_THRESHOLD) {
+    warnings.push({
+      issue: "compression",
+      message: `The image shows heavy JPEG compression artifacts (block edges ${quality.blockiness.toFixed(1)}× stronger than elsewhere).`,
+    })
+  }
+
+  return warnings
+}
@@ -0,0 +1,106 @@
+// Turns the ways an image can reach the uploader - picked or dropped files, clipboard pastes,
+// images dragged out of another tab and typed URLs - into a File the uploader can classify.
+
+// Same-origin route that fetches remote images, served by the dev and preview servers (see lib/image-proxy.ts).
+// Going through it keeps canvases untainted, which fromPixels needs. Static builds have no such route.
+export const IMAGE_PROXY_PATH = "/api/image-proxy"
+
+// Set on every proxy answer, so a static host's fallback page isn't taken for one
+export const IMAGE_PROXY_HEADER = "X-Image-Proxy"
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+// Formats createImageBitmap decodes in every supported browser; SVG has no intrinsic pixels to classify
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "image/bmp", "image/avif"]
+
+// What a drop or paste carried: an image file, or the address of one
+export type ImageSource = { file: File } | { url: string }
+
+export function isAcceptedImageType(type: string): boolean {
+  return ACCEPTED_IMAGE_TYPES.includes(type.split(";")[0].trim().toLowerCase())
+}
+
+// Read a drop or paste. Files win; otherwise images dragged from a web page arrive as a URI list,
+// an HTML fragment with an <img>, or plain text holding the address.
+export function readImageSource(data: DataTransfer): ImageSource | null {
+  const file = Array.from(data.files).find((candidate) => candidate.type.startsWith("image/"))
+  if (file) {
+    return { file }
+  }
+
+  const uriList = data.getData("text/uri-list")
+  const listed = uriList
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("#"))
+  if (listed && isImageUrl(listed)) {
+    return { url: listed }
+  }
+
+  const html = data.getData("text/html")
+  if (html) {
+    const src = new DOMParser().parseFromString(html, "text/html").querySelector("img")?.getAttribute("src")
+    if (src && isImageUrl(src)) {
+      return { url: src }
+    }
+  }
+
+  const text = data.getData("text/plain").trim()
+  return isImageUrl(text) ? { url: text } : null
+}
+
+// http(s) and data: URLs can be loaded; blob: URLs from another tab can't
+export function isImageUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === "http:" || protocol === "https:" || (protocol === "data:" && value.startsWith("data:image/"))
+  } catch {
+    return false
+  }
+}
+
+// Download an image URL as a File. Remote images go through the proxy where the server has one, and are
+// otherwise fetched directly, which only works for image hosts that allow cross-origin requests.
+// data: URLs are read directly.
+export async function fetchImageUrl(url: string, signal?: AbortSignal): Promise<File> {
+  const isData = url.startsWith("data:")
+  const response = isData ? await fetch(url, { signal }) : await fetchRemote(url, signal)
+  if (!response.ok) {
+    // The proxy explains its refusals in the body
+    const reason = (await response.text().catch(() => "")) || `status ${response.status}`
+    throw new Error(`Could not load ${isData ? "the pasted image" : url}: ${reason}`)
+  }
+
+  const blob = await response.blob()
+  if (!isAcceptedImageType(blob.type)) {
+    throw new Error(`${blob.type || "That address"} is not a supported image type`)
+  }
+  if (blob.size > MAX_IMAGE_BYTES) {
+    throw new Error("The image is larger than 10MB")
+  }
+  return new File([blob], isData ? "pasted-image" : fileNameFromUrl(url), { type: blob.type })
+}
+
+async function fetchRemote(url: string, signal?: AbortSignal): Promise<Response> {
+  const proxied = await fetch(`${IMAGE_PROXY_PATH}?url=${encodeURIComponent(url)}`, { signal })
+  if (proxied.headers.has(IMAGE_PROXY_HEADER)) {
+    return proxied
+  }
+
+  try {
+    return await fetch(url, { mode: "cors", credentials: "omit", signal })
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error
+    }
+    throw new Error(
+      `Could not load ${url}: its server doesn't allow cross-origin requests, and only the dev and preview servers ` +
+        "provide the image proxy. Download the image and upload it instead.",
+    )
+  }
+}
+
+function fileNameFromUrl(url: string): string {
+  const name = new URL(url).pathname.split("/").filter(Boolean).pop()
+  return name ? decodeURIComponent(name) : "image"
+}
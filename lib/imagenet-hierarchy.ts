@@ -0,0 +1,69 @@
+import { IMAGENET_HYPERNYMS } from "./imagenet-hypernyms"
+
+// WordNet is-a hierarchy above the ImageNet classes, bundled so it works offline. The hypernym table
+// is generated from WordNet 3.0 by scripts/generate-imagenet-hierarchy.mjs; hypernyms with a single
+// child ("physical entity", "chordate", ...) are collapsed, so each parent is the nearest branching one.
+
+export type HypernymNode = {
+  // WordNet 3.0 synset id, e.g. "n02099267" for retriever
+  wnid: string
+  name: string
+  // Synset ids of the parent and child hypernyms
+  parent: string | null
+  children: string[]
+  // Class indices directly below this node
+  classes: number[]
+}
+
+// Keyed by synset id
+export const IMAGENET_HIERARCHY: ReadonlyMap<string, HypernymNode> = new Map(
+  IMAGENET_HYPERNYMS.map(([wnid, name, parent, classes]) => [
+    wnid,
+    { wnid, name, parent, children: [], classes: parseIndices(classes) },
+  ]),
+)
+
+// Synset id of the hypernym directly above each class, by class index
+const classParents: string[] = []
+
+for (const node of IMAGENET_HIERARCHY.values()) {
+  if (node.parent) {
+    IMAGENET_HIERARCHY.get(node.parent)!.children.push(node.wnid)
+  }
+  for (const classIndex of node.classes) {
+    classParents[classIndex] = node.wnid
+  }
+}
+
+// Hypernyms of a class from the root down to its direct parent, e.g.
+// [entity, ..., dog, hunting dog, sporting dog, retriever] for the golden retriever
+export function getImageNetSynsets(classIndex: number): HypernymNode[] {
+  const path: HypernymNode[] = []
+  let node = IMAGENET_HIERARCHY.get(classParents[classIndex])
+  while (node) {
+    path.unshift(node)
+    node = node.parent ? IMAGENET_HIERARCHY.get(node.parent) : undefined
+  }
+  return path
+}
+
+// Names of the hypernyms, e.g. ["entity", ..., "sporting dog", "retriever"] for the golden retriever
+export function getImageNetPath(classIndex: number): string[] {
+  return getImageNetSynsets(classIndex).map((node) => node.name)
+}
+
+// The direct hypernym's name, e.g. "retriever" for the golden retriever
+export function getImageNetSuperclass(classIndex: number): string {
+  return IMAGENET_HIERARCHY.get(classParents[classIndex])?.name ?? ""
+}
+
+// "0 1 389-397" → [0, 1, 389, 390, ..., 397]
+function parseIndices(spec: string): number[] {
+  return spec
+    .split(" ")
+    .filter(Boolean)
+    .flatMap((part) => {
+      const [start, end = start] = part.split("-").map(Number)
+      return Array.from({ length: end - start + 1 }, (_, i) => start + i)
+    })
+}
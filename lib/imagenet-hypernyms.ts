@@ -0,0 +1,382 @@
+// Generated by scripts/generate-imagenet-hierarchy.mjs from WordNet 3.0. Do not edit by hand.
+// Each row is a hypernym synset above the ImageNet classes: its synset id, its first lemma, the synset id
+// of its nearest branching hypernym and the class indices directly below it. Parents come before children.
+export const IMAGENET_HYPERNYMS: readonly (readonly [
+  wnid: string,
+  name: string,
+  parent: string | null,
+  classes: string,
+])[] = [
+  ["n00001740", "entity", null, ""],
+  ["n00001930", "physical entity", "n00001740", ""],
+  ["n00002684", "object", "n00001930", "415"],
+  ["n00003553", "whole", "n00002684", ""],
+  ["n00004475", "organism", "n00003553", ""],
+  ["n00007846", "person", "n00004475", "981-983"],
+  ["n00015388", "animal", "n00004475", ""],
+  ["n01471682", "vertebrate", "n00015388", ""],
+  ["n02512053", "fish", "n01471682", "389"],
+  ["n01482071", "elasmobranch", "n02512053", ""],
+  ["n01482330", "shark", "n01482071", "2-4"],
+  ["n01495701", "ray", "n01482071", "5-6"],
+  ["n02528163", "teleost fish", "n02512053", ""],
+  ["n01428580", "soft-finned fish", "n02528163", "390-391"],
+  ["n01439121", "cyprinid", "n01428580", "0-1"],
+  ["n02552171", "spiny-finned fish", "n02528163", "396-397"],
+  ["n02554730", "percoid fish", "n02552171", "392-393"],
+  ["n02638596", "ganoid", "n02528163", "394-395"],
+  ["n01503061", "bird", "n01471682", "7-9 91 94"],
+  ["n01525720", "oscine", "n01503061", "19-20"],
+  ["n01529672", "finch", "n01525720", "10-14"],
+  ["n01557185", "thrush", "n01525720", "15-16"],
+  ["n01578575", "corvine bird", "n01525720", "17-18"],
+  ["n01604330", "bird of prey", "n01503061", "21-24"],
+  ["n01816887", "parrot", "n01503061", "87-90"],
+  ["n01825930", "coraciiform bird", "n01503061", "92-93"],
+  ["n01838038", "piciform bird", "n01503061", "95-96"],
+  ["n01844917", "aquatic bird", "n01503061", "100 136"],
+  ["n01845477", "anseriform bird", "n01844917", "99"],
+  ["n01846331", "duck", "n01845477", "97-98"],
+  ["n02000954", "wading bird", "n01844917", "129-130 134-135 137-138"],
+  ["n02002075", "stork", "n02000954", "127-128"],
+  ["n02008041", "heron", "n02000954", "131-133"],
+  ["n02022684", "shorebird", "n02000954", "139 142-143"],
+  ["n02026059", "sandpiper", "n02022684", "140-141"],
+  ["n02021795", "seabird", "n01844917", "144-146"],
+  ["n01627424", "amphibian", "n01471682", ""],
+  ["n01629276", "salamander", "n01627424", "25"],
+  ["n01630284", "newt", "n01629276", "26-27"],
+  ["n01632047", "ambystomid", "n01629276", "28-29"],
+  ["n01639765", "frog", "n01627424", "30-32"],
+  ["n01661091", "reptile", "n01471682", ""],
+  ["n01662784", "turtle", "n01661091", "35-37"],
+  ["n01663401", "sea turtle", "n01662784", "33-34"],
+  ["n01661818", "diapsid", "n01661091", "51"],
+  ["n01674464", "lizard", "n01661818", "38 41 44-48"],
+  ["n01676755", "iguanid", "n01674464", "39-40"],
+  ["n01687665", "agamid", "n01674464", "42-43"],
+  ["n01696633", "crocodilian reptile", "n01661818", "49-50"],
+  ["n01726692", "snake", "n01661818", "65"],
+  ["n01727646", "colubrid snake", "n01726692", "52-60"],
+  ["n01741943", "boa", "n01726692", "61-62"],
+  ["n01745125", "elapid", "n01726692", "63-64"],
+  ["n01752165", "viper", "n01726692", "66"],
+  ["n01754876", "rattlesnake", "n01752165", "67-68"],
+  ["n01861778", "mammal", "n01471682", "101"],
+  ["n01871875", "monotreme", "n01861778", "102-103"],
+  ["n01874434", "marsupial", "n01861778", "104-106"],
+  ["n01886756", "placental", "n01861778", ""],
+  ["n02062017", "aquatic mammal", "n01886756", "149-150"],
+  ["n02062744", "whale", "n02062017", "147-148"],
+  ["n02075296", "carnivore", "n01886756", ""],
+  ["n02083346", "canine", "n02075296", "276"],
+  ["n02084071", "dog", "n02083346", "251 253-257 262 268"],
+  ["n02085374", "toy dog", "n02084071", "151-155 158"],
+  ["n02086346", "toy spaniel", "n02085374", "156-157"],
+  ["n02087122", "hunting dog", "n02084071", "159"],
+  ["n02087551", "hound", "n02087122", "160-165 168 173-178"],
+  ["n02089555", "foxhound", "n02087551", "166-167"],
+  ["n02090475", "wolfhound", "n02087551", "169-170"],
+  ["n02090827", "greyhound", "n02087551", "171-172"],
+  ["n02092468", "terrier", "n02087122", "181-188 191-195 199-204"],
+  ["n02093056", "bullterrier", "n02092468", "179-180"],
+  ["n02095412", "wirehair", "n02092468", "189-190"],
+  ["n02096756", "schnauzer", "n02092468", "196-198"],
+  ["n02098550", "sporting dog", "n02087122", ""],
+  ["n02099029", "retriever", "n02098550", "205-209"],
+  ["n02099997", "pointer", "n02098550", "210-211"],
+  ["n02100399", "setter", "n02098550", "212-214"],
+  ["n02101108", "spaniel", "n02098550", "215-216 219-221"],
+  ["n02101861", "springer spaniel", "n02101108", "217-218"],
+  ["n02103406", "working dog", "n02084071", "242-248"],
+  ["n02103841", "watchdog", "n02103406", "222-223"],
+  ["n02106966", "pinscher", "n02103841", "236-237 252"],
+  ["n02104523", "shepherd dog", "n02103406", "226-235"],
+  ["n02104882", "Belgian sheepdog", "n02104523", "224-225"],
+  ["n02107420", "Sennenhunde", "n02103406", "238-241"],
+  ["n02109811", "sled dog", "n02103406", "249-250"],
+  ["n02111626", "spitz", "n02084071", "258-261"],
+  ["n02112826", "corgi", "n02084071", "263-264"],
+  ["n02113335", "poodle", "n02084071", "265-267"],
+  ["n02114100", "wolf", "n02083346", "269-272"],
+  ["n02115335", "wild dog", "n02083346", "273-275"],
+  ["n02118333", "fox", "n02083346", "277-280"],
+  ["n02120997", "feline", "n02075296", ""],
+  ["n02121620", "cat", "n02120997", ""],
+  ["n02121808", "domestic cat", "n02121620", "281-285"],
+  ["n02124623", "wildcat", "n02121620", "286-287"],
+  ["n02127808", "big cat", "n02120997", "288-293"],
+  ["n02131653", "bear", "n02075296", "294-297"],
+  ["n02134971", "viverrine", "n02075296", "298-299"],
+  ["n02441326", "musteline mammal", "n02075296", "356-362"],
+  ["n02507649", "procyonid", "n02075296", "387-388"],
+  ["n02323902", "leporid", "n01886756", "331"],
+  ["n02324045", "rabbit", "n02323902", "330 332"],
+  ["n02329401", "rodent", "n01886756", "333-338"],
+  ["n02370806", "ungulate", "n01886756", ""],
+  ["n02374149", "equine", "n02370806", "339-340"],
+  ["n02394477", "even-toed ungulate", "n02370806", "344 354-355"],
+  ["n02395003", "swine", "n02394477", "341-343"],
+  ["n02401031", "bovid", "n02394477", "345-350"],
+  ["n02419796", "antelope", "n02401031", "351-353"],
+  ["n02453611", "edentate", "n01886756", "363-364"],
+  ["n02469914", "primate", "n01886756", ""],
+  ["n02470899", "anthropoid ape", "n02469914", ""],
+  ["n02480153", "great ape", "n02470899", "365-367"],
+  ["n02483092", "lesser ape", "n02470899", "368-369"],
+  ["n02484322", "monkey", "n02469914", ""],
+  ["n02484473", "Old World monkey", "n02484322", "370-376"],
+  ["n02489589", "New World monkey", "n02484322", "377-382"],
+  ["n02496913", "lemur", "n02469914", "383-384"],
+  ["n02503517", "elephant", "n01886756", "385-386"],
+  ["n01905661", "invertebrate", "n00015388", ""],
+  ["n01767661", "arthropod", "n01905661", "69 79"],
+  ["n01769347", "arachnid", "n01767661", "70-71 78"],
+  ["n01772222", "spider", "n01769347", "72-77"],
+  ["n01974773", "crustacean", "n01767661", "126"],
+  ["n01976146", "decapod crustacean", "n01974773", "124-125"],
+  ["n01976957", "crab", "n01976146", "118-121"],
+  ["n01982650", "lobster", "n01976146", "122-123"],
+  ["n02159955", "insect", "n01767661", "308 313 318"],
+  ["n02164464", "beetle", "n02159955", "300-304 307"],
+  ["n02171869", "scarabaeid beetle", "n02164464", "305-306"],
+  ["n02206270", "hymenopterous insect", "n02159955", "309-310"],
+  ["n02226183", "orthopterous insect", "n02159955", "311-312"],
+  ["n02232951", "dictyopterous insect", "n02159955", "314-315"],
+  ["n02246011", "homopterous insect", "n02159955", "316-317"],
+  ["n02268148", "odonate", "n02159955", "319-320"],
+  ["n02274259", "butterfly", "n02159955", "321-326"],
+  ["n01909422", "coelenterate", "n01905661", "107"],
+  ["n01914163", "anthozoan", "n01909422", "108-109"],
+  ["n01922303", "worm", "n01905661", "110-111"],
+  ["n01940736", "mollusk", "n01905661", "116-117"],
+  ["n01942177", "gastropod", "n01940736", "112-115"],
+  ["n02316707", "echinoderm", "n01905661", "327-329"],
+  ["n02153203", "game bird", "n00015388", ""],
+  ["n01795088", "grouse", "n02153203", "80-83"],
+  ["n01802721", "phasianid", "n02153203", "84-86"],
+  ["n11669921", "flower", "n00004475", "985-986"],
+  ["n12992868", "fungus", "n00004475", "991-997"],
+  ["n13134947", "fruit", "n00003553", "988-989 998"],
+  ["n13135832", "seed", "n13134947", "984 987 990"],
+  ["n00021939", "artifact", "n00003553", "679 721 819 850"],
+  ["n04381994", "tableware", "n00021939", "910"],
+  ["n03206908", "dish (tableware)", "n04381994", "712"],
+  ["n02880940", "bowl", "n03206908", "659 809"],
+  ["n03528263", "home appliance", "n00021939", "606 786 882"],
+  ["n03620052", "kitchen appliance", "n03528263", "550 651 859 891"],
+  ["n03862676", "oven", "n03620052", "544 766"],
+  ["n04580493", "white goods", "n03528263", "534 760 897"],
+  ["n03122748", "covering", "n00021939", "501 643 789 921"],
+  ["n03050026", "cloth covering", "n03122748", "419 750"],
+  ["n03051540", "clothing", "n03122748", "578 652 658 697 785 903"],
+  ["n03540267", "hosiery", "n03051540", "496 638 806"],
+  ["n03419014", "garment", "n03051540", "459 465 529 608 610 834"],
+  ["n03815615", "necktie", "n03419014", "451 457 906"],
+  ["n03863923", "overgarment", "n03419014", "735"],
+  ["n03057021", "coat", "n03863923", "568 617 869"],
+  ["n04097866", "robe", "n03419014", "399 614"],
+  ["n04143897", "scarf", "n03419014", "552 824"],
+  ["n04230808", "skirt", "n03419014", "601 655 689 775"],
+  ["n04370048", "sweater", "n03419014", "474 841"],
+  ["n04371563", "swimsuit", "n03419014", "445 639 842"],
+  ["n03502509", "headdress", "n03051540", ""],
+  ["n02954340", "cap (headdress)", "n03502509", "433 667 793"],
+  ["n03497657", "hat", "n03502509", "439 452 515 808"],
+  ["n03513137", "helmet", "n03502509", "518 560"],
+  ["n03450516", "gown", "n03051540", "400 887"],
+  ["n04015204", "protective garment", "n03051540", "411 615"],
+  ["n03366823", "floor cover", "n03122748", "539 741"],
+  ["n03380867", "footwear", "n03122748", "502 514"],
+  ["n04199027", "shoe", "n03380867", "630 770 774"],
+  ["n04014297", "protective covering", "n03122748", "446 619"],
+  ["n02739668", "armor", "n04014297", "787"],
+  ["n02862048", "body armor", "n02739668", "490 524"],
+  ["n02851099", "blind", "n04014297", "905"],
+  ["n03151077", "curtain", "n02851099", "794 854"],
+  ["n02955065", "cap (protective covering)", "n04014297", "622 855"],
+  ["n03725035", "mask", "n04014297", "570 796"],
+  ["n04105068", "roof", "n04014297", "538 853 858 884"],
+  ["n04151581", "screen", "n04014297", "556 669 904"],
+  ["n04187061", "sheath", "n04014297", "597 777"],
+  ["n04191943", "shelter", "n04014297", "442 448 879"],
+  ["n02740764", "armor plate", "n04014297", "461 715"],
+  ["n04453910", "top", "n03122748", "640"],
+  ["n02954938", "cap (top)", "n04453910", "455 680"],
+  ["n03309808", "fabric", "n00021939", "885 911"],
+  ["n03575240", "instrumentality", "n00021939", "488 917"],
+  ["n03094503", "container", "n03575240", "412 481 549 647 653 692 719 738 804 868 893"],
+  ["n02773037", "bag", "n03094503", "414 636 728 748 797"],
+  ["n02801938", "basket", "n03094503", "588 790"],
+  ["n02883344", "box", "n03094503", "478 492 519 637 709 771"],
+  ["n03438257", "glass", "n03094503", "441 572"],
+  ["n04183329", "shaker", "n03094503", "503 773"],
+  ["n04531098", "vessel (container)", "n03094503", "427 435 463 504 618 666 725 876 896"],
+  ["n02876657", "bottle", "n04531098", "440 720 737 898 907"],
+  ["n03603722", "jug", "n02876657", "899 901"],
+  ["n03593526", "jar", "n04531098", "438 883"],
+  ["n04078574", "reservoir", "n04531098", "756 900"],
+  ["n03100490", "conveyance", "n03575240", "830"],
+  ["n04019101", "public transport", "n03100490", "466"],
+  ["n02924116", "bus", "n04019101", "654 779 874"],
+  ["n04524313", "vehicle", "n03100490", "657 847"],
+  ["n03125870", "craft", "n04524313", "812"],
+  ["n02686568", "aircraft", "n03125870", ""],
+  ["n03510583", "heavier-than-air craft", "n02686568", "404 895"],
+  ["n03666917", "lighter-than-air craft", "n02686568", "405 417"],
+  ["n04530566", "vessel (craft)", "n03125870", ""],
+  ["n02858304", "boat", "n04530566", "554 576 625 814"],
+  ["n04244997", "small boat", "n02858304", "472 914"],
+  ["n04128837", "sailing vessel", "n04530566", "780"],
+  ["n04128499", "sailboat", "n04128837", "484 871"],
+  ["n04194289", "ship", "n04530566", "510 628 724 913"],
+  ["n04552696", "warship", "n04194289", "403 833"],
+  ["n04235291", "sled", "n04524313", "450 537"],
+  ["n04576211", "wheeled vehicle", "n04524313", "660 670 870 880"],
+  ["n02834778", "bicycle", "n04576211", "444 671"],
+  ["n02959942", "car (wheeled vehicle)", "n04576211", "565 705"],
+  ["n03484083", "handcart", "n04576211", "428 791"],
+  ["n04170037", "self-propelled vehicle", "n04576211", "561 757 829 866"],
+  ["n03684823", "locomotive", "n04170037", "547 820"],
+  ["n03791235", "motor vehicle", "n04170037", "408 573 575 665 803"],
+  ["n02958343", "car (motor vehicle)", "n03791235", "407 436 468 511 609 627 661 751 817"],
+  ["n04490091", "truck", "n03791235", "555 569 717 864 867"],
+  ["n04520170", "van", "n04490091", "656 675 734"],
+  ["n04464852", "tracked vehicle", "n04170037", "586 802"],
+  ["n02970849", "cart", "n04576211", "603 612 690"],
+  ["n03183080", "device", "n03575240", "517 545 589 592 626 714 761 795 836 902 908"],
+  ["n02895606", "breathing device", "n03183080", "691 801"],
+  ["n03274561", "electro-acoustic transducer", "n03183080", "632 650"],
+  ["n03277771", "electronic device", "n03183080", "673 782"],
+  ["n03339643", "filter", "n03183080", "686 828"],
+  ["n03508101", "heater", "n03183080", "811 827"],
+  ["n03574816", "instrument", "n03183080", "583 635"],
+  ["n03733925", "measuring instrument", "n03574816", "426 685 769 778"],
+  ["n04437953", "timepiece", "n03733925", "531 604 835"],
+  ["n03046257", "clock", "n04437953", "409 530 892"],
+  ["n04438304", "timer", "n04437953", "704 826"],
+  ["n03739693", "medical instrument", "n03574816", "823 845"],
+  ["n03852280", "optical instrument", "n03574816", "447 745 837"],
+  ["n03709206", "magnifier", "n03574816", "633 755"],
+  ["n04565375", "weapon", "n03574816", "456 744"],
+  ["n03467984", "gun", "n04565375", "471"],
+  ["n03343853", "firearm", "n03467984", "413 763-764"],
+  ["n03614007", "keyboard", "n03183080", "508 878"],
+  ["n03699975", "machine", "n03183080", "398 480"],
+  ["n03082979", "computer", "n03699975", "798 916"],
+  ["n03918480", "personal computer", "n03082979", "527"],
+  ["n03985232", "portable computer", "n03918480", "590 620 681"],
+  ["n03322940", "farm machine", "n03699975", "595 856"],
+  ["n03997484", "power tool", "n03699975", "491 740"],
+  ["n04243941", "slot machine", "n03699975", "800 886"],
+  ["n03738472", "mechanism", "n03183080", "753"],
+  ["n03096960", "control", "n03738472", "613 844"],
+  ["n03736970", "mechanical device", "n03738472", "476 571 600 758 843"],
+  ["n04574999", "wheel", "n03736970", "479 694 723 739"],
+  ["n03800933", "musical instrument", "n03183080", ""],
+  ["n03614532", "keyboard instrument", "n03800933", "687"],
+  ["n03928116", "piano", "n03614532", "579 881"],
+  ["n03915437", "percussion instrument", "n03800933", "494 541 577 641-642 822"],
+  ["n04338517", "stringed instrument", "n03800933", "420 594"],
+  ["n02880546", "bowed stringed instrument", "n04338517", "486 889"],
+  ["n03467517", "guitar", "n04338517", "402 546"],
+  ["n04586932", "wind instrument", "n03800933", "684 699"],
+  ["n02891788", "brass", "n04586932", "513 566 875"],
+  ["n03393324", "free-reed instrument", "n04586932", "401 593"],
+  ["n04598582", "woodwind", "n04586932", "558"],
+  ["n02817799", "beating-reed instrument", "n04598582", "776"],
+  ["n03228016", "double-reed instrument", "n02817799", "432 683"],
+  ["n04069276", "reflector", "n03183080", "475 807"],
+  ["n04081844", "restraint", "n03183080", "535 676"],
+  ["n03323703", "fastener", "n04081844", "464 584 616 677 772 783"],
+  ["n03682487", "lock", "n03323703", "507 695"],
+  ["n04263760", "source of illumination", "n03183080", "862"],
+  ["n03636248", "lamp", "n04263760", "470 607 818"],
+  ["n04359589", "support", "n03183080", "645 678 718 872"],
+  ["n04474466", "trap", "n03183080", "674 815"],
+  ["n03294048", "equipment", "n03575240", "701 713"],
+  ["n03278248", "electronic equipment", "n03294048", "482 485 605 662 664 688 742 848"],
+  ["n04401088", "telephone", "n03278248", "487 528 707"],
+  ["n03414162", "game equipment", "n03294048", ""],
+  ["n02778669", "ball", "n03414162", "429-430 522 574 722 747 768 805 852 890"],
+  ["n04028315", "puzzle", "n03414162", "611 918"],
+  ["n03430959", "gear", "n03294048", "477 540"],
+  ["n02942699", "camera", "n03294048", "732 759"],
+  ["n04285146", "sports equipment", "n03294048", ""],
+  ["n03472232", "gymnastic apparatus", "n04285146", "416 602 702"],
+  ["n04571292", "weight", "n04285146", "422 543"],
+  ["n03405725", "furniture", "n03575240", "453 493 532 548 553 564 846 894"],
+  ["n02766320", "baby bed", "n03405725", "431 516 520"],
+  ["n02933112", "cabinet", "n03405725", "495 648"],
+  ["n04161981", "seat", "n03405725", "703 831 861"],
+  ["n03001627", "chair", "n04161981", "423 559 765 857"],
+  ["n04379243", "table", "n03405725", "526 736"],
+  ["n03563967", "implement", "n03575240", "693 696 710 733 752 767 810"],
+  ["n03039947", "cleaning implement", "n03563967", "462 840"],
+  ["n04317420", "stick", "n03563967", "542 644 816"],
+  ["n04296261", "staff", "n04317420", "523 557"],
+  ["n04451818", "tool", "n03563967", "621 730"],
+  ["n03265032", "edge tool", "n04451818", "596 726"],
+  ["n03623556", "knife", "n03265032", "499 623"],
+  ["n03489162", "hand tool", "n04451818", "587 731 784 792"],
+  ["n03848348", "opener", "n03489162", "473 512"],
+  ["n03101986", "cooking utensil", "n03563967", "521 813"],
+  ["n03880531", "pan", "n03101986", "567 909"],
+  ["n03990474", "pot", "n03101986", "469 505 849"],
+  ["n03906997", "pen", "n03563967", "418 563 749"],
+  ["n04377057", "system", "n03575240", "646"],
+  ["n03078287", "communication system", "n04377057", "754 851"],
+  ["n04447443", "toiletry", "n03575240", "551 585 629 631 711 838"],
+  ["n04188643", "sheet", "n00021939", "746 781"],
+  ["n04341686", "structure", "n00021939", "406 437 483 506 536 562 634 672 706 873"],
+  ["n02898711", "bridge", "n04341686", "821 839 888"],
+  ["n02913152", "building", "n04341686", "425 580 624 727 762"],
+  ["n04187547", "shed", "n02913152", "410 449"],
+  ["n03953416", "place of worship", "n02913152", "497 668 832"],
+  ["n04417809", "theater", "n02913152", "498 598"],
+  ["n03074380", "column", "n04341686", "682 863"],
+  ["n03297735", "establishment", "n04341686", "743"],
+  ["n03748162", "mercantile establishment", "n03297735", "582"],
+  ["n04202417", "shop", "n03748162", "424 454 467 509 788 860 865"],
+  ["n03259505", "dwelling", "n04341686", "500 915"],
+  ["n04079244", "residence", "n03259505", "663 698"],
+  ["n03743902", "memorial", "n04341686", "458 649"],
+  ["n02796623", "barrier", "n04341686", "421 460 525 581"],
+  ["n03327234", "fence", "n02796623", "489 716 825 912"],
+  ["n03795580", "movable barrier", "n02796623", "799 877"],
+  ["n04361095", "supporting structure", "n04341686", "708"],
+  ["n03391770", "framework", "n04361095", "599 729"],
+  ["n03932670", "piece of cloth", "n00002684", "443 533 591"],
+  ["n04459362", "towel", "n03932670", "434 700"],
+  ["n09287968", "geological formation", "n00002684", "972 974 979"],
+  ["n09366317", "natural elevation", "n09287968", "976"],
+  ["n09359803", "mountain", "n09366317", "970 980"],
+  ["n09409512", "ridge", "n09366317", "973 977"],
+  ["n09433442", "shore", "n09287968", "975 978"],
+  ["n00020827", "matter", "n00001930", "999"],
+  ["n00021265", "food (nutrient)", "n00020827", "922 958"],
+  ["n07566340", "foodstuff", "n00021265", "961"],
+  ["n07810907", "condiment", "n07566340", "924"],
+  ["n07829412", "sauce", "n07810907", "959-960"],
+  ["n07570720", "nutriment", "n00021265", ""],
+  ["n07556970", "course", "n07570720", "923"],
+  ["n07609840", "dessert", "n07556970", "927"],
+  ["n07611358", "frozen dessert", "n07609840", "928-929"],
+  ["n07557434", "dish (nutriment)", "n07570720", "925-926 962-965"],
+  ["n07695965", "sandwich", "n07557434", "933-934"],
+  ["n07881800", "beverage", "n00021265", "967"],
+  ["n07884567", "alcohol", "n07881800", "966"],
+  ["n07930554", "punch", "n07884567", "968-969"],
+  ["n07555863", "food (solid food)", "n00020827", ""],
+  ["n07679356", "bread", "n07555863", "930-932"],
+  ["n07705711", "produce", "n07555863", ""],
+  ["n07705931", "edible fruit", "n07705711", "948-949 952-957"],
+  ["n07747055", "citrus", "n07705931", "950-951"],
+  ["n07707451", "vegetable", "n07705711", "935 943-947"],
+  ["n07713395", "cruciferous vegetable", "n07707451", "936-938"],
+  ["n07715561", "squash", "n07707451", ""],
+  ["n07715721", "summer squash", "n07715561", "939-940"],
+  ["n07717070", "winter squash", "n07715561", "941-942"],
+  ["n00002137", "abstraction", "n00001740", "971"],
+  ["n00033020", "communication", "n00002137", "919-920"],
+]
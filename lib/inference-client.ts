@@ -0,0 +1,272 @@
+import type { ModelDescriptor } from "./model-registry"
+import type { LoadProgressCallback } from "./load-progress"
+import { loadBenchmark, saveBenchmark } from "./backend-info"
+import { InferenceError, ModelError, ModelLoadError } from "./errors"
+import { MODEL_STORAGE_CHANGE_EVENT, type StoredModelInfo } from "./model-storage-info"
+import type { CalibrationResult } from "./calibration"
+import type { BenchmarkResult } from "./backend-info"
+import type { ModelFilesInfo } from "./model"
+import type { ModelFormat } from "./model-registry"
+import type {
+  InferenceRequest,
+  InferenceResponse,
+  MemorySnapshot,
+  SerializedModelError,
+  StorageAction,
+  WorkerClassifyOptions,
+  WorkerImage,
+} from "./inference-protocol"
+
+// Promise-based client for the inference worker. A single worker is shared by the whole page
+// and keeps its own model cache, so a model is loaded once no matter how many images are classified.
+
+export type WorkerClassifyRequestOptions = Omit<WorkerClassifyOptions, "benchmark"> & {
+  onProgress?: LoadProgressCallback
+  // Aborting rejects the request with a "cancelled" ModelLoadError and stops any model download in the worker
+  signal?: AbortSignal
+}
+
+export type WorkerClassification = Omit<Extract<InferenceResponse, { type: "result" }>, "type" | "requestId">
+
+// resolve receives the payload of the request's final response: a classification, a calibration, benchmark
+// or model inspection result, or the stored models
+type PendingRequest = {
+  resolve: (result: unknown) => void
+  reject: (error: ModelError) => void
+  onProgress?: LoadProgressCallback
+}
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pending = new Map<number, PendingRequest>()
+const memoryRequests = new Map<number, (snapshot: MemorySnapshot) => void>()
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./inference.worker.ts", import.meta.url), { type: "module" })
+    worker.onmessage = (event: MessageEvent<InferenceResponse>) => handleResponse(event.data)
+    worker.onerror = (event) => {
+      // A crashed worker can't answer anything still pending; the next request starts a fresh one
+      console.error("Inference worker failed:", event.message)
+      for (const [requestId, request] of Array.from(pending)) {
+        pending.delete(requestId)
+        request.reject(new ModelLoadError(`The inference worker failed: ${event.message}`, "backend", "worker"))
+      }
+      memoryRequests.clear()
+      worker?.terminate()
+      worker = null
+    }
+  }
+  return worker
+}
+
+function post(request: InferenceRequest, transfer: Transferable[] = []) {
+  getWorker().postMessage(request, transfer)
+}
+
+function handleResponse(response: InferenceResponse) {
+  if (response.type === "storage-change") {
+    window.dispatchEvent(new CustomEvent(MODEL_STORAGE_CHANGE_EVENT))
+    return
+  }
+
+  if (response.type === "memory") {
+    memoryRequests.get(response.requestId)?.(response.snapshot)
+    memoryRequests.delete(response.requestId)
+    return
+  }
+
+  const request = pending.get(response.requestId)
+  if (!request) {
+    // The request was cancelled on this side already
+    return
+  }
+
+  switch (response.type) {
+    case "progress":
+      request.onProgress?.(response.progress)
+      break
+    case "result": {
+      pending.delete(response.requestId)
+      const { type, requestId, ...result } = response
+      if (result.benchmark) {
+        saveBenchmark(result.benchmark)
+      }
+      request.resolve(result)
+      break
+    }
+    case "calibration":
+      pending.delete(response.requestId)
+      request.resolve(response.result)
+      break
+    case "benchmark":
+      pending.delete(response.requestId)
+      saveBenchmark(response.results)
+      request.resolve(response.results)
+      break
+    case "model-info":
+      pending.delete(response.requestId)
+      request.resolve(response.info)
+      break
+    case "storage":
+      pending.delete(response.requestId)
+      request.resolve(response.models)
+      break
+    case "error":
+      pending.delete(response.requestId)
+      request.reject(deserializeError(response.error))
+      break
+  }
+}
+
+// Send a request that is answered by progress messages and then a result or an error
+function sendRequest<T>(
+  build: (requestId: number) => InferenceRequest,
+  transfer: Transferable[],
+  cancelledError: () => ModelError,
+  { onProgress, signal }: Pick<WorkerClassifyRequestOptions, "onProgress" | "signal">,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError())
+      return
+    }
+
+    const requestId = nextRequestId++
+    pending.set(requestId, { resolve: (result) => resolve(result as T), reject, onProgress })
+
+    signal?.addEventListener(
+      "abort",
+      () => {
+        if (pending.delete(requestId)) {
+          post({ type: "cancel", requestId })
+          reject(cancelledError())
+        }
+      },
+      { once: true },
+    )
+
+    post(build(requestId), transfer)
+  })
+}
+
+// Classify an image in the worker. The image is transferred, so it can't be used again afterwards.
+export function classifyInWorker(
+  image: WorkerImage,
+  descriptor: ModelDescriptor,
+  options: WorkerClassifyRequestOptions = {},
+): Promise<WorkerClassification> {
+  const { onProgress, signal, ...workerOptions } = options
+
+  return sendRequest(
+    (requestId) => ({
+      type: "classify",
+      requestId,
+      descriptor,
+      image,
+      options: { ...workerOptions, benchmark: loadBenchmark() },
+    }),
+    [image],
+    () => new ModelLoadError(`Classification with ${descriptor.id} was cancelled`, "cancelled", descriptor.id),
+    { onProgress, signal },
+  )
+}
+
+// Classify the frames of an animation in one request, so the model is acquired once. The frames are transferred.
+export function classifyFramesInWorker(
+  frames: WorkerImage[],
+  descriptor: ModelDescriptor,
+  options: WorkerClassifyRequestOptions = {},
+): Promise<WorkerClassification> {
+  const { onProgress, signal, ...workerOptions } = options
+
+  return sendRequest(
+    (requestId) => ({
+      type: "classify-frames",
+      requestId,
+      descriptor,
+      frames,
+      options: { ...workerOptions, benchmark: loadBenchmark() },
+    }),
+    frames,
+    () => new ModelLoadError(`Classification with ${descriptor.id} was cancelled`, "cancelled", descriptor.id),
+    { onProgress, signal },
+  )
+}
+
+// Fit a calibration temperature for a model from labeled images. The images are transferred.
+export function calibrateInWorker(
+  images: WorkerImage[],
+  labels: string[],
+  descriptor: ModelDescriptor,
+  options: WorkerClassifyRequestOptions = {},
+): Promise<CalibrationResult> {
+  const { onProgress, signal, ...workerOptions } = options
+
+  return sendRequest(
+    (requestId) => ({
+      type: "calibrate",
+      requestId,
+      descriptor,
+      images,
+      labels,
+      options: { ...workerOptions, benchmark: loadBenchmark() },
+    }),
+    images,
+    () => new InferenceError(`Calibrating ${descriptor.id} was cancelled`, "cancelled", descriptor.id),
+    { onProgress, signal },
+  )
+}
+
+// Time every backend inside the worker, so the result reflects the context inference runs in, and remember it
+export function benchmarkInWorker(): Promise<BenchmarkResult[]> {
+  return sendRequest(
+    (requestId) => ({ type: "benchmark", requestId }),
+    [],
+    () => new InferenceError("The backend benchmark was cancelled", "cancelled", "worker"),
+    {},
+  )
+}
+
+// Load uploaded model files in the worker to check them and read their input size and output count
+export function inspectModelInWorker(files: File[], format: ModelFormat, modelId: string): Promise<ModelFilesInfo> {
+  return sendRequest(
+    (requestId) => ({ type: "inspect-model", requestId, modelId, files, format }),
+    [],
+    () => new ModelLoadError(`Checking ${modelId} was cancelled`, "cancelled", modelId),
+    {},
+  )
+}
+
+// Read or change offline model storage in the worker; resolves to the stored models afterwards
+export function updateModelStorage(action: StorageAction): Promise<StoredModelInfo[]> {
+  return sendRequest(
+    (requestId) => ({ type: "storage", requestId, action }),
+    [],
+    () => new ModelLoadError("The model storage request was cancelled", "cancelled", "storage"),
+    {},
+  )
+}
+
+// Drop a model from the worker's cache, e.g. when a session model is replaced or removed
+export function unloadWorkerModel(modelId: string) {
+  worker?.postMessage({ type: "unload", modelId } satisfies InferenceRequest)
+}
+
+// Sample TF.js memory inside the worker. Resolves to null while no worker has been started,
+// so polling doesn't spin one up just to report that it is empty.
+export function getWorkerMemory(): Promise<MemorySnapshot | null> {
+  if (!worker) {
+    return Promise.resolve(null)
+  }
+
+  const requestId = nextRequestId++
+  return new Promise((resolve) => {
+    memoryRequests.set(requestId, resolve)
+    post({ type: "memory", requestId })
+  })
+}
+
+function deserializeError({ message, kind, stage, modelId }: SerializedModelError): ModelError {
+  return stage === "load" ? new ModelLoadError(message, kind, modelId) : new InferenceError(message, kind, modelId)
+}
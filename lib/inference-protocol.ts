@@ -0,0 +1,149 @@
+import type { ModelDescriptor, ModelFormat } from "./model-registry"
+import type { LoadProgress } from "./load-progress"
+import type { BackendInfo, BackendPreference, BenchmarkResult } from "./backend-info"
+import type { ModelErrorKind, ModelErrorStage } from "./errors"
+import type { CachedModelInfo, ModelFilesInfo } from "./model"
+import type { StoredModelInfo } from "./model-storage-info"
+import type { CalibrationResult } from "./calibration"
+import type { PreprocessingStep } from "./preprocessing"
+import type { TensorSnapshot } from "./tensor-visualization"
+import type { TtaSettings, TtaSummary } from "./augmentation"
+import type { ImageQuality } from "./image-quality"
+import type { TiledSummary, TilingSettings } from "./tiling"
+import type { HedgedSummary, HedgingSettings } from "./hedging"
+
+// Messages exchanged between the inference worker and its client.
+// Every request that expects an answer carries a requestId; all responses to it echo that id.
+
+export type WorkerImage = ImageBitmap | OffscreenCanvas
+
+export type WorkerClassifyOptions = {
+  demoMode?: boolean
+  storageBudgetBytes?: number
+  memoryBudgetBytes?: number
+  backend?: BackendPreference
+  // Overrides the model's registered preprocessing pipeline
+  preprocessing?: PreprocessingStep[]
+  // Calibration temperature the logits are divided by before the softmax
+  temperature?: number
+  // Test-time augmentation for single images; animations and calibration always use the plain image
+  tta?: TtaSettings
+  // Also classify overlapping windows of single images, for photos with several subjects
+  tiling?: TilingSettings
+  // How many predictions to return, and the probability the ones after the first must reach
+  topK?: number
+  minProbability?: number
+  // Hedged prediction over the label hierarchy at the given confidence target
+  hedging?: HedgingSettings
+  // Benchmark results from the main thread, since workers can't read localStorage
+  benchmark?: BenchmarkResult[] | null
+}
+
+export type WorkerPrediction = {
+  classIndex: number
+  className: string
+  superclass: string
+  // Hypernyms from the most general down to the direct parent
+  path: string[]
+  probability: number
+}
+
+// TF.js memory inside the worker, sampled for the tensor monitor
+export type MemorySnapshot = {
+  timestamp: number
+  numTensors: number
+  numBytes: number
+  // Only reported by the webgl backend
+  numBytesInGPU?: number
+  cachedModels: CachedModelInfo[]
+}
+
+// Errors cross the worker boundary as plain data and are rebuilt as ModelErrors by the client
+export type SerializedModelError = {
+  message: string
+  kind: ModelErrorKind
+  stage: ModelErrorStage
+  modelId: string
+}
+
+// Changes to offline model storage, which only the worker can read and write
+export type StorageAction =
+  | { type: "list" }
+  | { type: "remove"; key: string }
+  | { type: "clear" }
+  // Evict least recently used models until the total fits
+  | { type: "budget"; budgetBytes: number }
+
+export type InferenceRequest =
+  | {
+      type: "classify"
+      requestId: number
+      // Sent with every request so session models registered on the main thread are known to the worker
+      descriptor: ModelDescriptor
+      image: WorkerImage
+      options: WorkerClassifyOptions
+    }
+  | {
+      type: "classify-frames"
+      requestId: number
+      descriptor: ModelDescriptor
+      // Frames of an animated image, in playback order
+      frames: WorkerImage[]
+      options: WorkerClassifyOptions
+    }
+  | {
+      type: "calibrate"
+      requestId: number
+      descriptor: ModelDescriptor
+      images: WorkerImage[]
+      // True class of each image, by class name or index
+      labels: string[]
+      options: WorkerClassifyOptions
+    }
+  | { type: "cancel"; requestId: number }
+  | { type: "unload"; modelId: string }
+  | { type: "memory"; requestId: number }
+  // Time every backend in the worker, where inference runs
+  | { type: "benchmark"; requestId: number }
+  // Validate an uploaded model before it is registered
+  | { type: "inspect-model"; requestId: number; modelId: string; files: File[]; format: ModelFormat }
+  | { type: "storage"; requestId: number; action: StorageAction }
+
+export type InferenceResponse =
+  | { type: "progress"; requestId: number; progress: LoadProgress }
+  | {
+      type: "result"
+      requestId: number
+      predictions: WorkerPrediction[]
+      isDemo: boolean
+      backend: BackendInfo
+      // Present when the worker ran the backend benchmark itself, so the client can persist it
+      benchmark: BenchmarkResult[] | null
+      // The preprocessed 0-255 image and the normalized tensor passed to the model
+      processed: TensorSnapshot
+      input: TensorSnapshot
+      // The pipeline that produced `processed`: the request's override or the model's own steps
+      preprocessing: PreprocessingStep[]
+      // Blur, exposure, resolution and compression checks on the image before classification; null if they failed
+      quality: ImageQuality | null
+      // Top predictions of each frame, for animations; `predictions` then averages all frames
+      frames?: WorkerPrediction[][]
+      // Views and per-class agreement when test-time augmentation combined the predictions
+      tta?: TtaSummary
+      // Windows and the classes found in them, when tiled classification is on
+      tiles?: TiledSummary
+      // Every class's probability behind `predictions`, for exploring the full output
+      distribution: Float32Array
+      classNames: string[]
+      // Most specific class or hypernym reaching the confidence target, when hedging is on
+      hedged?: HedgedSummary
+    }
+  | { type: "error"; requestId: number; error: SerializedModelError }
+  | { type: "calibration"; requestId: number; result: CalibrationResult }
+  | { type: "memory"; requestId: number; snapshot: MemorySnapshot }
+  | { type: "benchmark"; requestId: number; results: BenchmarkResult[] }
+  | { type: "model-info"; requestId: number; info: ModelFilesInfo }
+  // The stored models after the action
+  | { type: "storage"; requestId: number; models: StoredModelInfo[] }
+  // A model was written to or evicted from offline storage
+  | { type: "storage-change" }
@@ -0,0 +1,510 @@
+import * as tf from "@tensorflow/tfjs"
+import {
+  type ClassifierModel,
+  DEFAULT_TOP_K,
+  getTopKPredictions,
+  inspectModelFiles,
+  listCachedModels,
+  loadModel,
+  preprocessImage,
+  preprocessImageStages,
+  predictProbabilities,
+  predictViews,
+  preprocessRegions,
+  selectBackend,
+  toLogits,
+  unloadModel,
+} from "./model"
+import { type ModelDescriptor, getModelDescriptor, isSessionModel, registerModel } from "./model-registry"
+import { createDemoModel } from "./demo-model"
+import { getBackendInfo, runBackendBenchmark } from "./backend"
+import { loadBenchmark, saveBenchmark } from "./backend-info"
+import { InferenceError, ModelError, ModelLoadError, toInferenceError } from "./errors"
+import { type CalibrationSample, calibrate, matchLabel } from "./calibration"
+import { type PreprocessingStep, pipelineChannelOrder } from "./preprocessing"
+import { normalizedRange } from "./normalization"
+import { snapshotTensor } from "./tensor-visualization"
+import { type TtaMode, type TtaSummary, classStability, combineViews, viewNames } from "./augmentation"
+import type { ImageQuality } from "./image-quality"
+import { analyzeImageQuality } from "./image-quality-analysis"
+import { type TiledSummary, type TilingSettings, findTileClasses, tileLayout } from "./tiling"
+import { hedgePrediction } from "./hedging"
+import { clearStoredModels, enforceStorageBudget, listStoredModels, removeStoredModel } from "./model-storage"
+import type {
+  InferenceRequest,
+  InferenceResponse,
+  MemorySnapshot,
+  SerializedModelError,
+  StorageAction,
+  WorkerClassifyOptions,
+  WorkerImage,
+  WorkerPrediction,
+} from "./inference-protocol"
+
+// Inference worker: loads and caches models and runs preprocessing and inference off the main thread.
+// Talk to it through lib/inference-client.ts rather than posting messages directly.
+
+const worker = self as unknown as Worker
+
+// Abort controllers for classify and calibrate requests that are still running, by requestId
+const pending = new Map<number, AbortController>()
+
+// Requests that use a model, and the benchmark currently switching backends. A benchmark waits for the
+// running requests and new requests wait for the benchmark, so a model never runs on a backend mid-switch.
+const running = new Set<Promise<void>>()
+let benchmarkRun: Promise<void> = Promise.resolve()
+
+// Tiles per predict call; bounds the memory one batch of tiled classification takes
+const TILE_BATCH_SIZE = 16
+
+function respond(response: InferenceResponse, transfer: Transferable[] = []) {
+  worker.postMessage(response, transfer)
+}
+
+worker.onmessage = (event: MessageEvent<InferenceRequest>) => {
+  const request = event.data
+
+  switch (request.type) {
+    case "classify":
+      runWithModel(() => handleClassify(request))
+      break
+    case "classify-frames":
+      runWithModel(() => handleClassifyFrames(request))
+      break
+    case "calibrate":
+      runWithModel(() => handleCalibrate(request))
+      break
+    case "cancel":
+      pending.get(request.requestId)?.abort()
+      break
+    case "unload":
+      unloadModel(request.modelId)
+      break
+    case "memory":
+      respond({ type: "memory", requestId: request.requestId, snapshot: memorySnapshot() })
+      break
+    case "benchmark":
+      handleBenchmark(request)
+      break
+    case "inspect-model":
+      runWithModel(() => handleInspectModel(request))
+      break
+    case "storage":
+      handleStorage(request)
+      break
+  }
+}
+
+// The handlers answer errors themselves, so the tracked promises never reject
+function runWithModel(handler: () => Promise<void>) {
+  const run = benchmarkRun.then(handler)
+  running.add(run)
+  run.finally(() => running.delete(run))
+}
+
+// Get the model for a request: the demo model if asked for, otherwise the cached or freshly loaded real one
+async function acquireModel(
+  descriptor: ModelDescriptor,
+  options: WorkerClassifyOptions,
+  requestId: number,
+  signal: AbortSignal,
+): Promise<ClassifierModel> {
+  // Session models only exist in the main thread's registry until they are first used here
+  if (!getModelDescriptor(descriptor.id) || isSessionModel(descriptor.id)) {
+    registerModel(descriptor)
+  }
+  if (options.benchmark) {
+    saveBenchmark(options.benchmark)
+  }
+
+  let model
+  if (options.demoMode) {
+    await selectBackend(options.backend ?? "auto", descriptor.id)
+    model = await createDemoModel(descriptor)
+  } else {
+    model = await loadModel(descriptor.id, {
+      storageBudgetBytes: options.storageBudgetBytes,
+      memoryBudgetBytes: options.memoryBudgetBytes,
+      backend: options.backend,
+      signal,
+      onProgress: (progress) => respond({ type: "progress", requestId, progress }),
+    })
+    respond({ type: "storage-change" })
+  }
+
+  if (signal.aborted) {
+    throw new ModelLoadError(`Classification with ${descriptor.id} was cancelled`, "cancelled", descriptor.id)
+  }
+  return model
+}
+
+async function handleClassify(request: Extract<InferenceRequest, { type: "classify" }>) {
+  const { requestId, descriptor, options } = request
+  const abortController = new AbortController()
+  pending.set(requestId, abortController)
+  // The quality checks, the tiles and the whole image all read these pixels. A canvas is snapshotted
+  // once here, and the finally below closes the snapshot along with a transferred bitmap.
+  const image = request.image instanceof ImageBitmap ? request.image : request.image.transferToImageBitmap()
+
+  try {
+    const model = await acquireModel(descriptor, options, requestId, abortController.signal)
+    const quality = await checkQuality(image, model)
+    const tiles = options.tiling?.enabled
+      ? await classifyTiles(image, model, descriptor, options, options.tiling, abortController.signal)
+      : undefined
+    const tta = options.tta && options.tta.mode !== "off" ? options.tta : null
+    const { input, snapshots } = await preprocessWithSnapshots(image, model, descriptor, options, tta?.mode)
+
+    // With TTA every view runs in one batch and the combined probabilities give the prediction
+    const views = tta ? await predictViews(model, input, descriptor.id, options.temperature) : null
+    const probabilities =
+      tta && views
+        ? combineViews(views, tta.reduction)
+        : await predictProbabilities(model, input, descriptor.id, options.temperature)
+    const ranked = await topPredictions(probabilities, options)
+
+    const ttaSummary: TtaSummary | undefined =
+      tta && views
+        ? {
+            ...tta,
+            views: viewNames(tta.mode),
+            stability: ranked.map(({ classIndex }) => classStability(views, classIndex)),
+          }
+        : undefined
+
+    respond(
+      {
+        type: "result",
+        requestId,
+        predictions: labelPredictions(model, ranked),
+        tta: ttaSummary,
+        quality,
+        tiles,
+        distribution: probabilities,
+        classNames: classNames(model, probabilities.length),
+        hedged: hedge(model, probabilities, options),
+        isDemo: model.isDemo || false,
+        backend: await getBackendInfo(),
+        benchmark: options.benchmark ? null : loadBenchmark(),
+        ...snapshots,
+      },
+      [snapshots.processed.data.buffer, snapshots.input.data.buffer, probabilities.buffer],
+    )
+  } catch (error) {
+    respond({ type: "error", requestId, error: serializeError(error, descriptor.id) })
+  } finally {
+    pending.delete(requestId)
+    closeImage(image)
+  }
+}
+
+// Classify every frame of an animation. The result's predictions average the frames' probabilities;
+// the preprocessing snapshots and the quality checks cover the first frame.
+async function handleClassifyFrames(request: Extract<InferenceRequest, { type: "classify-frames" }>) {
+  const { requestId, descriptor, frames, options } = request
+  const abortController = new AbortController()
+  pending.set(requestId, abortController)
+
+  try {
+    const model = await acquireModel(descriptor, options, requestId, abortController.signal)
+    if (frames.length === 0) {
+      throw new InferenceError("The animation has no frames to classify", "format", descriptor.id)
+    }
+    const quality = await checkQuality(frames[0], model)
+    const framePredictions: WorkerPrediction[][] = []
+    let total: Float32Array | null = null
+    let snapshots: Awaited<ReturnType<typeof preprocessWithSnapshots>>["snapshots"] | null = null
+
+    for (let i = 0; i < frames.length; i++) {
+      if (abortController.signal.aborted) {
+        throw new ModelLoadError(`Classification with ${descriptor.id} was cancelled`, "cancelled", descriptor.id)
+      }
+
+      let input: tf.Tensor
+      if (i === 0) {
+        const first = await preprocessWithSnapshots(frames[i], model, descriptor, options)
+        input = first.input
+        snapshots = first.snapshots
+      } else {
+        input = preprocessImage(frames[i], model, options.preprocessing)
+      }
+
+      const probabilities = await predictProbabilities(model, input, descriptor.id, options.temperature)
+      framePredictions.push(labelPredictions(model, await topPredictions(probabilities, options)))
+      if (!total) {
+        total = new Float32Array(probabilities.length)
+      }
+      for (let index = 0; index < total.length; index++) {
+        total[index] += probabilities[index]
+      }
+    }
+
+    if (!total || !snapshots) {
+      throw new InferenceError("The animation has no frames to classify", "format", descriptor.id)
+    }
+
+    const mean = total.map((sum) => sum / frames.length)
+    respond(
+      {
+        type: "result",
+        requestId,
+        predictions: labelPredictions(model, await topPredictions(mean, options)),
+        frames: framePredictions,
+        quality,
+        distribution: mean,
+        classNames: classNames(model, mean.length),
+        hedged: hedge(model, mean, options),
+        isDemo: model.isDemo || false,
+        backend: await getBackendInfo(),
+        benchmark: options.benchmark ? null : loadBenchmark(),
+        ...snapshots,
+      },
+      [snapshots.processed.data.buffer, snapshots.input.data.buffer, mean.buffer],
+    )
+  } catch (error) {
+    respond({ type: "error", requestId, error: serializeError(error, descriptor.id) })
+  } finally {
+    pending.delete(requestId)
+    frames.forEach(closeImage)
+  }
+}
+
+// Classify the tiling's windows in batches and find the classes they show
+async function classifyTiles(
+  image: ImageBitmap,
+  model: ClassifierModel,
+  descriptor: ModelDescriptor,
+  options: WorkerClassifyOptions,
+  tiling: TilingSettings,
+  signal: AbortSignal,
+): Promise<TiledSummary> {
+  const tiles = tileLayout(image.width, image.height, tiling)
+  const probabilities: Float32Array[] = []
+
+  for (let start = 0; start < tiles.length; start += TILE_BATCH_SIZE) {
+    if (signal.aborted) {
+      throw new ModelLoadError(`Classification with ${descriptor.id} was cancelled`, "cancelled", descriptor.id)
+    }
+    const batch = preprocessRegions(image, model, tiles.slice(start, start + TILE_BATCH_SIZE), options.preprocessing)
+    probabilities.push(...(await predictViews(model, batch, descriptor.id, options.temperature)))
+  }
+
+  return {
+    width: image.width,
+    height: image.height,
+    tiles,
+    classes: findTileClasses(probabilities, (classIndex) => model.labels.names[classIndex] || `Class ${classIndex}`),
+  }
+}
+
+// Collect the logits of every labeled image and fit a temperature to them
+async function handleCalibrate(request: Extract<InferenceRequest, { type: "calibrate" }>) {
+  const { requestId, descriptor, images, labels, options } = request
+  const abortController = new AbortController()
+  pending.set(requestId, abortController)
+
+  try {
+    const model = await acquireModel(descriptor, { ...options, demoMode: false }, requestId, abortController.signal)
+    const samples: CalibrationSample[] = []
+    const unmatchedLabels: Record<string, number> = {}
+
+    for (let i = 0; i < images.length; i++) {
+      if (abortController.signal.aborted) {
+        throw new ModelLoadError(`Calibrating ${descriptor.id} was cancelled`, "cancelled", descriptor.id)
+      }
+
+      const target = matchLabel(labels[i], model.labels.names)
+      if (target === null) {
+        unmatchedLabels[labels[i]] = (unmatchedLabels[labels[i]] || 0) + 1
+        continue
+      }
+
+      const input = preprocessImage(images[i], model, options.preprocessing)
+      const output = await model.predict(input).finally(() => input.dispose())
+      const logits = toLogits(output, model.io.outputKind)
+      output.dispose()
+      samples.push({ logits: await logits.data().finally(() => logits.dispose()), target })
+    }
+
+    if (samples.length === 0) {
+      throw new InferenceError(
+        `None of the image labels match a ${descriptor.name} class. Name folders or files after the classes.`,
+        "labels",
+        descriptor.id,
+      )
+    }
+
+    respond({ type: "calibration", requestId, result: calibrate(samples, unmatchedLabels) })
+  } catch (error) {
+    respond({ type: "error", requestId, error: serializeError(error, descriptor.id) })
+  } finally {
+    pending.delete(requestId)
+    images.forEach(closeImage)
+  }
+}
+
+// The benchmark switches through every backend and back; cached models stay loaded and are used again afterwards
+function handleBenchmark({ requestId }: Extract<InferenceRequest, { type: "benchmark" }>) {
+  const models = Promise.allSettled(Array.from(running))
+  benchmarkRun = benchmarkRun
+    .then(() => models)
+    .then(runBackendBenchmark)
+    .then(
+      (results) => respond({ type: "benchmark", requestId, results }),
+      (error) => respond({ type: "error", requestId, error: serializeError(error, "worker") }),
+    )
+}
+
+async function handleInspectModel(request: Extract<InferenceRequest, { type: "inspect-model" }>) {
+  const { requestId, modelId, files, format } = request
+  try {
+    respond({ type: "model-info", requestId, info: await inspectModelFiles(files, format, modelId) })
+  } catch (error) {
+    respond({ type: "error", requestId, error: serializeError(error, modelId) })
+  }
+}
+
+async function handleStorage({ requestId, action }: Extract<InferenceRequest, { type: "storage" }>) {
+  try {
+    await applyStorageAction(action)
+    respond({ type: "storage", requestId, models: await listStoredModels() })
+    if (action.type !== "list") {
+      respond({ type: "storage-change" })
+    }
+  } catch (error) {
+    respond({ type: "error", requestId, error: serializeError(error, "storage") })
+  }
+}
+
+function applyStorageAction(action: StorageAction): Promise<void> {
+  switch (action.type) {
+    case "list":
+      return Promise.resolve()
+    case "remove":
+      return removeStoredModel(action.key)
+    case "clear":
+      return clearStoredModels()
+    case "budget":
+      return enforceStorageBudget(action.budgetBytes)
+  }
+}
+
+// Preprocess an image and copy both stages out before inference disposes the input tensor
+async function preprocessWithSnapshots(
+  image: WorkerImage,
+  model: ClassifierModel,
+  descriptor: ModelDescriptor,
+  options: WorkerClassifyOptions,
+  tta?: TtaMode,
+) {
+  const { processed, input, pipeline } = preprocessImageStages(image, model, options.preprocessing, tta)
+  try {
+    const stages = await snapshotStages(processed, input, pipeline, model, descriptor)
+    return { input, snapshots: { ...stages, preprocessing: pipeline } }
+  } catch (error) {
+    input.dispose()
+    throw error
+  } finally {
+    processed.dispose()
+  }
+}
+
+// The requested number of most likely classes, without those under the probability cutoff
+// The checks only advise, so a failure in them leaves the result without warnings rather than failing it
+async function checkQuality(image: WorkerImage, model: ClassifierModel): Promise<ImageQuality | null> {
+  try {
+    return await analyzeImageQuality(image, model.io.inputShape)
+  } catch (error) {
+    console.warn("Image quality checks failed:", error)
+    return null
+  }
+}
+
+function topPredictions(probabilities: Float32Array, options: WorkerClassifyOptions) {
+  return getTopKPredictions(probabilities, options.topK ?? DEFAULT_TOP_K, options.minProbability)
+}
+
+// Computed before the probabilities' buffer is transferred with the result
+function hedge(model: ClassifierModel, probabilities: Float32Array, options: WorkerClassifyOptions) {
+  return options.hedging?.enabled
+    ? hedgePrediction(probabilities, model.labels, options.hedging.confidenceTarget)
+    : undefined
+}
+
+// Name of every output class, for the distribution explorer
+function classNames(model: ClassifierModel, count: number): string[] {
+  return Array.from({ length: count }, (_, classIndex) => model.labels.names[classIndex] || `Class ${classIndex}`)
+}
+
+// Labels are resolved here because LabelSet's hierarchy lookups can't cross the worker boundary
+function labelPredictions(
+  model: ClassifierModel,
+  predictions: { classIndex: number; probability: number }[],
+): WorkerPrediction[] {
+  return predictions.map(({ classIndex, probability }) => ({
+    classIndex,
+    probability,
+    className: model.labels.names[classIndex] || `Class ${classIndex}`,
+    superclass: model.labels.superclassOf(classIndex),
+    path: model.labels.pathOf(classIndex),
+  }))
+}
+
+// Copy both preprocessing stages for the visualization, each with the range it is displayed over.
+// Integer models take the raw pixels; float models get the normalization's output range.
+async function snapshotStages(
+  processed: tf.Tensor3D,
+  input: tf.Tensor,
+  pipeline: PreprocessingStep[],
+  model: ClassifierModel,
+  descriptor: ModelDescriptor,
+) {
+  const processedOrder = pipelineChannelOrder(pipeline)
+  if (model.io.inputDtype === "int32") {
+    return {
+      processed: await snapshotTensor(processed, [0, 255], processedOrder),
+      input: await snapshotTensor(input, [0, 255], processedOrder),
+    }
+  }
+
+  const { normalization } = descriptor
+  const ranges = normalizedRange(normalization).slice(0, model.io.inputShape[2])
+  const range: [number, number] = [
+    Math.min(...ranges.map(([low]) => low)),
+    Math.max(...ranges.map(([, high]) => high)),
+  ]
+  // Normalization's own BGR swap reverses the channels once more
+  const inputOrder = (processedOrder === "bgr") !== (normalization.channelOrder === "bgr") ? "bgr" : "rgb"
+
+  return {
+    processed: await snapshotTensor(processed, [0, 255], processedOrder),
+    input: await snapshotTensor(input, range, inputOrder),
+  }
+}
+
+function closeImage(image: WorkerImage) {
+  if (image instanceof ImageBitmap) {
+    image.close()
+  }
+}
+
+function memorySnapshot(): MemorySnapshot {
+  const memory = tf.memory() as tf.MemoryInfo & { numBytesInGPU?: number }
+  return {
+    timestamp: Date.now(),
+    numTensors: memory.numTensors,
+    numBytes: memory.numBytes,
+    numBytesInGPU: memory.numBytesInGPU,
+    cachedModels: listCachedModels(),
+  }
+}
+
+function serializeError(error: unknown, modelId: string): SerializedModelError {
+  const modelError = error instanceof ModelError ? error : toInferenceError(error, modelId)
+  return {
+    message: modelError.message,
+    kind: modelError.kind,
+    stage: modelError.stage,
+    modelId: modelError.modelId,
+  }
+}
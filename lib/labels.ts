@@ -0,0 +1,188 @@
+import { IMAGENET_CLASSES } from "./imagenet-classes"
+import { getImageNetPath, getImageNetSuperclass } from "./imagenet-hierarchy"
+import { CIFAR100_CLASSES, getCifar100Superclass } from "./cifar100-classes"
+import { ModelLoadError } from "./errors"
+
+// Per-model label sources and the parsers for label files
+
+export type BuiltInLabelSetId = "imagenet" | "cifar100"
+
+// "text": one label per line
+// "json-array": ["tench", "goldfish", ...]
+// "json-map": {"0": "tench", ...} or Keras-style {"0": ["n01440764", "tench"], ...}
+// "synset": ImageNet synset lines such as "n01440764 tench, Tinca tinca"
+export type LabelFileFormat = "text" | "json-array" | "json-map" | "synset"
+
+export type LabelSource = (
+  | { type: "builtin"; set: BuiltInLabelSetId }
+  | { type: "url"; url: string; format?: LabelFileFormat }
+  | { type: "inline"; labels: string[] }
+) & {
+  // The model predicts an extra "background" class at index 0 (e.g. 1001 outputs for ImageNet)
+  hasBackgroundClass?: boolean
+}
+
+// Labels resolved for one model, indexed by the model's output index
+export type LabelSet = {
+  names: string[]
+  superclassOf: (classIndex: number) => string
+  // Ancestors of a class, most general first; empty when the labels have no hierarchy
+  pathOf: (classIndex: number) => string[]
+}
+
+const BACKGROUND_LABEL = "background"
+
+type BuiltInLabelSet = {
+  size: number
+  names: readonly string[]
+  superclassOf: (classIndex: number) => string
+  pathOf: (classIndex: number) => string[]
+}
+
+const builtInLabelSets: Record<BuiltInLabelSetId, BuiltInLabelSet> = {
+  imagenet: { size: 1000, names: IMAGENET_CLASSES, superclassOf: getImageNetSuperclass, pathOf: getImageNetPath },
+  cifar100: {
+    size: 100,
+    names: CIFAR100_CLASSES.map((name) => name.replace(/_/g, " ")),
+    superclassOf: getCifar100Superclass,
+    pathOf: (classIndex) => [getCifar100Superclass(classIndex)],
+  },
+}
+
+export function describeLabelSource(source: LabelSource): string {
+  switch (source.type) {
+    case "builtin":
+      return source.set === "imagenet" ? "ImageNet-1k" : "CIFAR-100"
+    case "url":
+      return `Labels file (${source.url})`
+    case "inline":
+      return "Custom labels"
+  }
+}
+
+// Resolve a model's labels and reject them if they don't match the model's output size
+export async function resolveLabels(source: LabelSource, outputSize: number, modelId: string): Promise<LabelSet> {
+  let names: string[]
+  let declaredSize: number
+  let superclassOf: (classIndex: number) => string = () => ""
+  let pathOf: (classIndex: number) => string[] = () => []
+
+  switch (source.type) {
+    case "builtin": {
+      const set = builtInLabelSets[source.set]
+      names = Array.from({ length: set.size }, (_, i) => set.names[i] || `Class ${i}`)
+      declaredSize = set.size
+      superclassOf = set.superclassOf
+      pathOf = set.pathOf
+      break
+    }
+    case "url": {
+      const response = await fetch(source.url)
+      if (!response.ok) {
+        throw new ModelLoadError(`Could not fetch labels from ${source.url} (status ${response.status})`, "network", modelId)
+      }
+      names = parseLabels(await response.text(), source.format)
+      declaredSize = names.length
+      break
+    }
+    case "inline":
+      names = source.labels
+      declaredSize = names.length
+      break
+  }
+
+  const offset = source.hasBackgroundClass ? 1 : 0
+  checkLabelCount(declaredSize + offset, outputSize, modelId, source)
+
+  if (!offset) {
+    return { names, superclassOf, pathOf }
+  }
+
+  return {
+    names: [BACKGROUND_LABEL, ...names],
+    superclassOf: (classIndex) => (classIndex === 0 ? "" : superclassOf(classIndex - 1)),
+    pathOf: (classIndex) => (classIndex === 0 ? [] : pathOf(classIndex - 1)),
+  }
+}
+
+export function checkLabelCount(labelCount: number, outputSize: number, modelId: string, source?: LabelSource) {
+  if (labelCount === outputSize) {
+    return
+  }
+
+  let hint = ""
+  if (outputSize === labelCount + 1 && !source?.hasBackgroundClass) {
+    hint = " If index 0 of the output is a background class, mark the labels as having a background class."
+  } else if (outputSize === labelCount - 1 && source?.hasBackgroundClass) {
+    hint = " The labels are marked as having a background class, but the model does not seem to predict one."
+  }
+
+  throw new ModelLoadError(
+    `${modelId} predicts ${outputSize} classes but its labels describe ${labelCount}.${hint}`,
+    "labels",
+    modelId,
+  )
+}
+
+// Parse a labels file. Without an explicit format the format is detected from the content.
+export function parseLabels(text: string, format: LabelFileFormat = detectLabelFormat(text)): string[] {
+  switch (format) {
+    case "json-array": {
+      const parsed = JSON.parse(text)
+      if (!Array.isArray(parsed)) {
+        throw new ModelLoadError("Expected the labels file to contain a JSON array", "format", "labels")
+      }
+      return parsed.map((label) => String(label))
+    }
+    case "json-map":
+      return parseJsonMap(text)
+    case "synset":
+      return nonEmptyLines(text).map((line) => {
+        const [, rest = ""] = line.match(/^n\d{8}\s+(.*)$/) || []
+        return (rest || line).split(",")[0].trim()
+      })
+    case "text":
+      return nonEmptyLines(text)
+  }
+}
+
+export function detectLabelFormat(text: string): LabelFileFormat {
+  const trimmed = text.trim()
+  if (trimmed.startsWith("[")) return "json-array"
+  if (trimmed.startsWith("{")) return "json-map"
+  if (/^n\d{8}\s/.test(trimmed)) return "synset"
+  return "text"
+}
+
+function parseJsonMap(text: string): string[] {
+  const parsed = JSON.parse(text) as Record<string, string | [string, string]>
+  const entries = Object.entries(parsed).map(([key, value]) => {
+    const index = Number(key)
+    if (!Number.isInteger(index) || index < 0) {
+      throw new ModelLoadError(`Label map key "${key}" is not a class index`, "format", "labels")
+    }
+    // Keras' imagenet_class_index.json maps each index to [synset id, name]
+    const name = Array.isArray(value) ? value[value.length - 1] : value
+    return [index, String(name)] as const
+  })
+
+  const names: string[] = []
+  for (const [index, name] of entries) {
+    names[index] = name
+  }
+
+  const missing = names.findIndex((name) => name === undefined)
+  if (missing >= 0 || names.length !== entries.length) {
+    const gap = missing >= 0 ? missing : names.length
+    throw new ModelLoadError(`Label map has no entry for class index ${gap}`, "format", "labels")
+  }
+
+  return names
+}
+
+function nonEmptyLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+}
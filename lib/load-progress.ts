@@ -0,0 +1,149 @@
+import type { io } from "@tensorflow/tfjs"
+import { formatBytes } from "./utils"
+
+// Staged progress reporting for model loading
+
+export type LoadStage = "backend" | "topology" | "weights" | "warmup"
+
+export type LoadProgress = {
+  stage: LoadStage
+  // Progress within the current stage, 0 to 1
+  fraction: number
+  loadedBytes?: number
+  totalBytes?: number
+}
+
+export type LoadProgressCallback = (progress: LoadProgress) => void
+
+const stageLabels: Record<LoadStage, string> = {
+  backend: "Initializing backend",
+  topology: "Fetching model topology",
+  weights: "Fetching weights",
+  warmup: "Warming up",
+}
+
+export function describeLoadProgress(progress: LoadProgress): string {
+  const label = stageLabels[progress.stage]
+  const percent = `${Math.round(progress.fraction * 100)}%`
+
+  if (progress.stage === "weights" && progress.loadedBytes !== undefined) {
+    const bytes = progress.totalBytes
+      ? `${formatBytes(progress.loadedBytes)} / ${formatBytes(progress.totalBytes)}`
+      : formatBytes(progress.loadedBytes)
+    return `${label} ${bytes} (${percent})`
+  }
+
+  return `${label} (${percent})`
+}
+
+// Bytes per stored value, by weight dtype or quantization dtype
+const DTYPE_BYTES: Record<string, number> = {
+  float32: 4,
+  int32: 4,
+  bool: 1,
+  complex64: 8,
+  float16: 2,
+  uint16: 2,
+  uint8: 1,
+}
+
+// A fetch replacement for tf.io loaders that counts downloaded bytes and honors an AbortSignal.
+// The first request a loader makes is the model.json topology; every later one is a weight shard.
+// The weight total comes from the manifest in model.json, since shards are fetched in parallel and
+// their Content-Length only arrives one by one; the summed headers are the fallback.
+export function createProgressFetch(onProgress: LoadProgressCallback | undefined, signal?: AbortSignal) {
+  let requestCount = 0
+  let weightBytesLoaded = 0
+  let manifestBytes: number | null = null
+  let weightBytesTotal = 0
+  let weightTotalKnown = true
+
+  const reportWeights = () => {
+    const total = manifestBytes ?? (weightTotalKnown ? weightBytesTotal : undefined)
+    onProgress?.({
+      stage: "weights",
+      fraction: total ? Math.min(1, weightBytesLoaded / total) : 0,
+      loadedBytes: weightBytesLoaded,
+      totalBytes: total,
+    })
+  }
+
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const isTopology = requestCount++ === 0
+    const response = await fetch(input, { ...init, signal })
+
+    const contentLength = Number(response.headers.get("content-length"))
+    if (isTopology) {
+      onProgress?.({ stage: "topology", fraction: 0 })
+    } else if (contentLength > 0) {
+      weightBytesTotal += contentLength
+    } else {
+      weightTotalKnown = false
+    }
+
+    if (!response.body) {
+      return response
+    }
+
+    const reader = response.body.getReader()
+    let topologyBytes = 0
+    let topologyText = ""
+    const decoder = new TextDecoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read()
+        if (done) {
+          if (isTopology) {
+            manifestBytes = weightManifestBytes(topologyText + decoder.decode())
+            onProgress?.({ stage: "topology", fraction: 1 })
+          }
+          controller.close()
+          return
+        }
+
+        if (isTopology) {
+          topologyBytes += value.byteLength
+          topologyText += decoder.decode(value, { stream: true })
+          onProgress?.({ stage: "topology", fraction: contentLength > 0 ? topologyBytes / contentLength : 0 })
+        } else {
+          weightBytesLoaded += value.byteLength
+          reportWeights()
+        }
+        controller.enqueue(value)
+      },
+      cancel(reason) {
+        return reader.cancel(reason)
+      },
+    })
+
+    return new Response(stream, {
+      headers: response.headers,
+      status: response.status,
+      statusText: response.statusText,
+    })
+  }
+}
+
+// Total size of the weight shards declared in model.json, or null when the manifest is missing or has
+// weights of unknown size, such as strings
+function weightManifestBytes(topology: string): number | null {
+  let manifest: io.WeightsManifestConfig | undefined
+  try {
+    manifest = (JSON.parse(topology) as Partial<io.ModelJSON>).weightsManifest
+  } catch {
+    return null
+  }
+  if (!Array.isArray(manifest)) {
+    return null
+  }
+
+  let total = 0
+  for (const weight of manifest.flatMap((group) => group.weights)) {
+    const bytes = DTYPE_BYTES[weight.quantization?.dtype || weight.dtype]
+    if (!bytes) {
+      return null
+    }
+    total += weight.shape.reduce((size, dimension) => size * dimension, 1) * bytes
+  }
+  return total > 0 ? total : null
+}
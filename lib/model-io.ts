@@ -0,0 +1,126 @@
+import * as tf from "@tensorflow/tfjs"
+import { ModelLoadError } from "./errors"
+import type { ModelDescriptor } from "./model-registry"
+
+// Introspection of a loaded model's input and output signatures.
+// The loader checks what the model itself declares against the registry metadata, so a
+// mismatch is reported at load time instead of silently feeding the model the wrong input.
+
+// "probabilities": the model ends in a softmax/sigmoid; "logits": raw scores that still need a softmax
+export type OutputKind = "probabilities" | "logits"
+
+// Input and output facts of a loaded model, used by preprocessing and post-processing
+export type ModelIO = {
+  // [height, width, channels] the image is resized to
+  inputShape: [number, number, number]
+  inputDtype: tf.DataType
+  outputSize: number
+  outputKind: OutputKind
+  // Batch size the model is fixed to; null when it takes any batch
+  batchSize: number | null
+}
+
+// Input dimensions as the model declares them; null where a dimension is dynamic
+export type InputSignature = {
+  shape: [number | null, number | null, number | null]
+  dtype: tf.DataType
+  batchSize: number | null
+}
+
+type Artifact = tf.LayersModel | tf.GraphModel
+
+const SUPPORTED_CHANNELS = [1, 3]
+
+export function readInputSignature(artifact: Artifact, modelId: string, inputName?: string): InputSignature {
+  const input = (inputName && artifact.inputs.find((info) => info.name === inputName)) || artifact.inputs[0]
+  const shape = input?.shape
+
+  if (!shape || shape.length !== 4) {
+    throw new ModelLoadError(
+      `Expected an image input of rank 4 [batch, height, width, channels], got ${JSON.stringify(shape)}`,
+      "shape",
+      modelId,
+    )
+  }
+
+  const [batchSize, height, width, channels] = shape.map((dim) => (dim && dim > 0 ? dim : null))
+  if (channels !== null && !SUPPORTED_CHANNELS.includes(channels)) {
+    throw new ModelLoadError(`Expected 1 (grayscale) or 3 (RGB) input channels, got ${channels}`, "shape", modelId)
+  }
+
+  return { shape: [height, width, channels], dtype: input.dtype || "float32", batchSize }
+}
+
+// Resolve the shape to preprocess to. Dynamic dimensions take the registry value; fixed ones must agree with it.
+export function resolveInputShape(signature: InputSignature, descriptor: ModelDescriptor): [number, number, number] {
+  const names = ["height", "width", "channels"]
+  const mismatches = signature.shape.flatMap((dim, i) =>
+    dim !== null && dim !== descriptor.inputShape[i] ? [`${names[i]} ${dim} (registry says ${descriptor.inputShape[i]})`] : [],
+  )
+
+  if (mismatches.length > 0) {
+    throw new ModelLoadError(
+      `${descriptor.id} expects input ${mismatches.join(", ")}. Update its registry entry to match the model.`,
+      "shape",
+      descriptor.id,
+    )
+  }
+
+  const [height, width, channels] = signature.shape
+  return [height ?? descriptor.inputShape[0], width ?? descriptor.inputShape[1], channels ?? descriptor.inputShape[2]]
+}
+
+// Work out from the model's structure whether it outputs probabilities. Returns null when the structure doesn't say.
+export function detectOutputKind(artifact: Artifact, outputName?: string): OutputKind | null {
+  if (artifact instanceof tf.LayersModel) {
+    const last = artifact.layers[artifact.layers.length - 1]
+    const activation = (last?.getConfig() as { activation?: string }).activation
+    if (activation === "softmax" || activation === "sigmoid" || last?.getClassName() === "Softmax") {
+      return "probabilities"
+    }
+    return activation === "linear" ? "logits" : null
+  }
+
+  // Graph models don't expose their node ops, but converted output names usually do
+  const name = outputName || artifact.outputs[0]?.name || ""
+  if (/softmax|probabilities|predictions/i.test(name)) {
+    return "probabilities"
+  }
+  return /logits/i.test(name) ? "logits" : null
+}
+
+// Runtime fallback: a probability vector is non-negative and sums to 1
+export function looksLikeProbabilities(values: ArrayLike<number>): boolean {
+  let sum = 0
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < 0 || values[i] > 1) {
+      return false
+    }
+    sum += values[i]
+  }
+  return Math.abs(sum - 1) < 1e-3
+}
+
+// Check the measured output against the registry, which declares the class count and optionally the output kind
+export function checkOutput(descriptor: ModelDescriptor, outputSize: number, detectedKind: OutputKind | null) {
+  if (outputSize !== descriptor.numClasses) {
+    throw new ModelLoadError(
+      `${descriptor.id} outputs ${outputSize} values but its registry entry declares ${descriptor.numClasses} classes`,
+      "shape",
+      descriptor.id,
+    )
+  }
+
+  if (descriptor.outputKind && detectedKind && descriptor.outputKind !== detectedKind) {
+    throw new ModelLoadError(
+      `${descriptor.id} is declared to output ${descriptor.outputKind} but the model outputs ${detectedKind}`,
+      "format",
+      descriptor.id,
+    )
+  }
+}
+
+export function describeModelIO(io: ModelIO): string {
+  const [height, width, channels] = io.inputShape
+  return `${width}x${height}x${channels} ${io.inputDtype} in, ${io.outputSize} ${io.outputKind} out`
+}
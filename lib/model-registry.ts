@@ -0,0 +1,195 @@
+import type { LabelSource } from "./labels"
+import type { OutputKind } from "./model-io"
+import { DEFAULT_PREPROCESSING, IMAGENET_PREPROCESSING, type PreprocessingStep } from "./preprocessing"
+import { type NormalizationSpec, normalizationPresets } from "./normalization"
+
+// Single source of truth for every model the app can load.
+// The loader, selector, preprocessing view and results view all read from here,
+// so adding a model means adding one entry to `modelRegistry`.
+// Models uploaded from local files are added for the current session with `registerModel`.
+
+export type ModelFormat = "layers" | "graph"
+
+export type ModelCard = {
+  description: string
+  accuracy: string
+  speed: string
+  details: string
+  preprocessing: string
+}
+
+// Named input/output of a graph model's serving signature
+export type ModelSignature = {
+  inputName?: string
+  outputName?: string
+}
+
+export type ModelDescriptor = {
+  id: string
+  name: string
+  // Bump when the artifact behind `url` changes so offline copies are replaced
+  version: string
+  url: string
+  // Local model.json, weight shards, loaded through tf.io.browserFiles instead of `url`
+  files?: File[]
+  format: ModelFormat
+  // Only used by graph models exported with named signature inputs/outputs
+  signature?: ModelSignature
+  // [height, width, channels]. Checked against the loaded model; used for dimensions the model leaves dynamic.
+  inputShape: [number, number, number]
+  // Steps from the decoded image to the input size, before normalization
+  preprocessing: PreprocessingStep[]
+  // Applied after preprocessing; see lib/normalization.ts for the presets
+  normalization: NormalizationSpec
+  labels: LabelSource
+  numClasses: number
+  // Detected from the model when omitted
+  outputKind?: OutputKind
+  size: string
+  card: ModelCard
+}
+
+export const modelRegistry: ModelDescriptor[] = [
+  {
+    id: "mobilenet",
+    name: "MobileNet v1",
+    version: "1",
+    url: "https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v1_0.25_224/model.json",
+    format: "layers",
+    inputShape: [224, 224, 3],
+    preprocessing: IMAGENET_PREPROCESSING,
+    normalization: normalizationPresets.mobilenet,
+    labels: { type: "builtin", set: "imagenet" },
+    numClasses: 1000,
+    size: "Small (~4MB)",
+    card: {
+      description: "Lightweight model optimized for mobile and web deployment",
+      accuracy: "Medium-High",
+      speed: "Very Fast",
+      details:
+        "MobileNet v1 uses depthwise separable convolutions to dramatically reduce computation and model size. It's specifically designed for mobile and embedded vision applications with limited computational resources while maintaining reasonable accuracy.",
+      preprocessing:
+        "MobileNet uses a different normalization range (-1 to 1) to improve training stability and model performance.",
+    },
+  },
+  {
+    id: "efficientnet",
+    name: "EfficientNet Lite",
+    version: "1",
+    url: "https://tfhub.dev/tensorflow/tfjs-model/efficientnet/lite0/classification/2/default/1",
+    format: "graph",
+    inputShape: [224, 224, 3],
+    preprocessing: IMAGENET_PREPROCESSING,
+    normalization: normalizationPresets.standard,
+    labels: { type: "builtin", set: "imagenet" },
+    numClasses: 1000,
+    size: "Medium (~10MB)",
+    card: {
+      description: "Balanced model with optimized accuracy and efficiency",
+      accuracy: "High",
+      speed: "Fast",
+      details:
+        "EfficientNet uses compound scaling to uniformly scale network width, depth, and resolution. The Lite version is optimized for edge devices while maintaining high accuracy on ImageNet classification tasks.",
+      preprocessing:
+        "EfficientNet uses standard normalization (0 to 1) and relies on compound scaling rather than a larger input size.",
+    },
+  },
+  {
+    id: "mobilenet-v2",
+    name: "MobileNet v2",
+    version: "1",
+    url: "https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v2_1.0_224/model.json",
+    format: "layers",
+    inputShape: [224, 224, 3],
+    preprocessing: IMAGENET_PREPROCESSING,
+    normalization: normalizationPresets.mobilenet,
+    labels: { type: "builtin", set: "imagenet" },
+    numClasses: 1000,
+    size: "Medium (~14MB)",
+    card: {
+      description: "Full-width MobileNet with inverted residual blocks",
+      accuracy: "High",
+      speed: "Medium",
+      details:
+        "MobileNet v2 adds inverted residual blocks with linear bottlenecks to the depthwise separable convolutions of v1. This is the full-width (1.0) variant, which is larger and more accurate than the 0.25-width MobileNet v1 model.",
+      preprocessing: "MobileNet v2 was trained on inputs scaled to -1 to 1, like MobileNet v1.",
+    },
+  },
+  {
+    id: "cifar100",
+    name: "CIFAR-100 CNN",
+    version: "1",
+    // Trained and converted by train_model.ipynb
+    url: "/models/cifar100/model.json",
+    format: "layers",
+    inputShape: [32, 32, 3],
+    // CIFAR images are tiny and tightly framed already, so nothing is cropped away
+    preprocessing: DEFAULT_PREPROCESSING,
+    normalization: normalizationPresets.standard,
+    labels: { type: "builtin", set: "cifar100" },
+    numClasses: 100,
+    size: "Small (~2MB)",
+    card: {
+      description: "Small convolutional network trained on CIFAR-100 with 20 superclasses",
+      accuracy: "Medium",
+      speed: "Very Fast",
+      details:
+        "A compact CNN with three convolutional blocks trained from scratch on the 60,000 32x32 images of CIFAR-100. It predicts 100 fine classes, each of which belongs to one of 20 coarse superclasses. Train and export it yourself with train_model.ipynb.",
+      preprocessing:
+        "CIFAR-100 uses a small input size because the dataset consists of small images, and standard normalization.",
+    },
+  },
+]
+
+export const DEFAULT_MODEL_ID = modelRegistry[0].id
+
+export const MODEL_REGISTRY_CHANGE_EVENT = "model-registry-change"
+
+// Models registered at runtime, e.g. uploaded from local files. They last until the page is reloaded.
+const sessionModels: ModelDescriptor[] = []
+
+export function listModels(): ModelDescriptor[] {
+  return [...modelRegistry, ...sessionModels]
+}
+
+export function getModelDescriptor(modelId: string): ModelDescriptor | undefined {
+  return listModels().find((model) => model.id === modelId)
+}
+
+export function isSessionModel(modelId: string): boolean {
+  return sessionModels.some((model) => model.id === modelId)
+}
+
+export function registerModel(descriptor: ModelDescriptor) {
+  if (modelRegistry.some((model) => model.id === descriptor.id)) {
+    throw new Error(`A built-in model already uses the id ${descriptor.id}`)
+  }
+
+  const index = sessionModels.findIndex((model) => model.id === descriptor.id)
+  if (index >= 0) {
+    sessionModels[index] = descriptor
+  } else {
+    sessionModels.push(descriptor)
+  }
+  notifyRegistryChange()
+}
+
+export function unregisterModel(modelId: string) {
+  const index = sessionModels.findIndex((model) => model.id === modelId)
+  if (index >= 0) {
+    sessionModels.splice(index, 1)
+    notifyRegistryChange()
+  }
+}
+
+function notifyRegistryChange() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(MODEL_REGISTRY_CHANGE_EVENT))
+  }
+}
+
+// Input size as shown in the UI, e.g. "224x224"
+export function describeInputSize(model: ModelDescriptor): string {
+  const [height, width] = model.inputShape
+  return `${width}x${height}`
+}
@@ -0,0 +1,18 @@
+// What the main thread knows about offline model storage. The storage itself is read and written by the
+// inference worker (model-storage.ts, through tf.io); the storage manager asks it via inference-client.ts.
+
+// Dispatched on window whenever the worker stored or removed a model
+export const MODEL_STORAGE_CHANGE_EVENT = "model-storage-change"
+
+export type StoredModelInfo = {
+  key: string
+  modelId: string
+  version: string
+  sizeBytes: number
+  savedAt: Date
+  lastUsedAt: Date
+}
+
+export function isStorageAvailable(): boolean {
+  return typeof indexedDB !== "undefined"
+}
@@ -0,0 +1,219 @@
+import * as tf from "@tensorflow/tfjs"
+import type { ModelDescriptor } from "./model-registry"
+import { type StoredModelInfo, isStorageAvailable } from "./model-storage-info"
+
+// Persistent offline cache for downloaded models. Models the app serves itself are not stored (see isStorable).
+// Models are saved through tf.io under indexeddb:// URLs keyed by model id, the
+// descriptor version and a hash of the source URL, so a changed artifact is
+// never served from a stale copy. Last-use times live in a small IndexedDB
+// store of our own and drive least-recently-used eviction under a byte budget.
+
+const KEY_PREFIX = "image-classifier/"
+const USAGE_DB_NAME = "image-classifier-model-usage"
+const USAGE_STORE = "usage"
+
+export function storageKey(descriptor: ModelDescriptor): string {
+  return `${KEY_PREFIX}${descriptor.id}@${descriptor.version}-${hashString(descriptor.url)}`
+}
+
+// Models served by the app itself, like /models/cifar100 that train_model.ipynb rewrites in place, can change
+// without a new version or URL. They are never stored offline, so a retrained model is picked up right away.
+export function isStorable(descriptor: ModelDescriptor): boolean {
+  if (descriptor.files) {
+    return false
+  }
+  try {
+    return new URL(descriptor.url, self.location.href).origin !== self.location.origin
+  } catch {
+    return false
+  }
+}
+
+// Remove every stored copy of a model, e.g. one saved before its source stopped being storable
+export async function removeStoredCopies(modelId: string): Promise<void> {
+  if (!isStorageAvailable()) {
+    return
+  }
+  for (const info of await listStoredModels()) {
+    if (info.modelId === modelId) {
+      await removeStoredModel(info.key)
+    }
+  }
+}
+
+function storageUrl(key: string) {
+  return `indexeddb://${key}`
+}
+
+// Returns the indexeddb:// URL for the descriptor if a copy is stored
+export async function findStoredModel(descriptor: ModelDescriptor): Promise<string | null> {
+  if (!isStorageAvailable()) {
+    return null
+  }
+
+  try {
+    const key = storageKey(descriptor)
+    const models = await tf.io.listModels()
+    if (!models[storageUrl(key)]) {
+      return null
+    }
+
+    await touchModel(key)
+    return storageUrl(key)
+  } catch (error) {
+    console.error("Failed to read model storage:", error)
+    return null
+  }
+}
+
+// Save a freshly downloaded model, drop older versions of it and enforce the budget
+export async function storeModel(
+  descriptor: ModelDescriptor,
+  model: { save: (url: string) => Promise<tf.io.SaveResult> },
+  budgetBytes: number,
+): Promise<void> {
+  if (!isStorageAvailable() || budgetBytes <= 0) {
+    return
+  }
+
+  const key = storageKey(descriptor)
+
+  try {
+    await model.save(storageUrl(key))
+    await touchModel(key)
+
+    const stored = await listStoredModels()
+    for (const info of stored) {
+      if (info.modelId === descriptor.id && info.key !== key) {
+        await removeStoredModel(info.key)
+      }
+    }
+
+    await enforceStorageBudget(budgetBytes, key)
+  } catch (error) {
+    // A full or unavailable IndexedDB must never break classification
+    console.error(`Failed to store ${descriptor.id} model offline:`, error)
+  }
+}
+
+export async function listStoredModels(): Promise<StoredModelInfo[]> {
+  if (!isStorageAvailable()) {
+    return []
+  }
+
+  const models = await tf.io.listModels()
+  const usage = await readUsage()
+
+  return Object.entries(models)
+    .filter(([url]) => url.startsWith(storageUrl(KEY_PREFIX)))
+    .map(([url, info]) => {
+      const key = url.slice("indexeddb://".length)
+      const [modelId, versionAndHash = ""] = key.slice(KEY_PREFIX.length).split("@")
+      const savedAt = new Date(info.dateSaved)
+      return {
+        key,
+        modelId,
+        version: versionAndHash.slice(0, versionAndHash.lastIndexOf("-")),
+        sizeBytes: (info.modelTopologyBytes || 0) + (info.weightSpecsBytes || 0) + (info.weightDataBytes || 0),
+        savedAt,
+        lastUsedAt: usage.get(key) || savedAt,
+      }
+    })
+}
+
+export async function removeStoredModel(key: string): Promise<void> {
+  await tf.io.removeModel(storageUrl(key))
+  await deleteUsage(key)
+}
+
+export async function clearStoredModels(): Promise<void> {
+  const stored = await listStoredModels()
+  for (const info of stored) {
+    await removeStoredModel(info.key)
+  }
+}
+
+// Evict least recently used models until the total fits the budget.
+// The model identified by keepKey is only evicted if it alone exceeds the budget.
+export async function enforceStorageBudget(budgetBytes: number, keepKey?: string): Promise<void> {
+  const stored = await listStoredModels()
+  let total = stored.reduce((sum, info) => sum + info.sizeBytes, 0)
+
+  const candidates = stored
+    .filter((info) => info.key !== keepKey)
+    .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())
+
+  for (const info of candidates) {
+    if (total <= budgetBytes) break
+    await removeStoredModel(info.key)
+    total -= info.sizeBytes
+  }
+
+  const kept = stored.find((info) => info.key === keepKey)
+  if (kept && total > budgetBytes) {
+    await removeStoredModel(kept.key)
+  }
+}
+
+// Short, stable hash so URL changes produce a new storage key
+function hashString(value: string): string {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
+function openUsageDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(USAGE_DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(USAGE_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withUsageStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openUsageDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(USAGE_STORE, mode).objectStore(USAGE_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+async function touchModel(key: string) {
+  await withUsageStore("readwrite", (store) => store.put(Date.now(), key))
+}
+
+async function deleteUsage(key: string) {
+  await withUsageStore("readwrite", (store) => store.delete(key))
+}
+
+async function readUsage(): Promise<Map<string, Date>> {
+  const db = await openUsageDb()
+  try {
+    return await new Promise((resolve, reject) => {
+      const usage = new Map<string, Date>()
+      const request = db.transaction(USAGE_STORE, "readonly").objectStore(USAGE_STORE).openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) {
+          resolve(usage)
+          return
+        }
+        usage.set(String(cursor.key), new Date(cursor.value as number))
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
@@ -1,165 +1,598 @@
 
 import * as tf from "@tensorflow/tfjs"
+import { DEFAULT_MODEL_ID, type ModelDescriptor, type ModelFormat, getModelDescriptor } from "./model-registry"
+import { InferenceError, ModelLoadError, toInferenceError, toModelLoadError } from "./errors"
+import { type LoadProgressCallback, createProgressFetch } from "./load-progress"
+import { type LabelSet, resolveLabels } from "./labels"
+import {
+  findStoredModel,
+  isStorable,
+  removeStoredCopies,
+  removeStoredModel,
+  storageKey,
+  storeModel,
+} from "./model-storage"
+import type { BackendPreference } from "./backend-info"
+import { initializeBackend } from "./backend"
+import {
+  type ModelIO,
+  type OutputKind,
+  checkOutput,
+  describeModelIO,
+  detectOutputKind,
+  looksLikeProbabilities,
+  readInputSignature,
+  resolveInputShape,
+} from "./model-io"
+import { type PreprocessingStep, validatePipeline } from "./preprocessing"
+import type { TtaMode } from "./augmentation"
+import { applyPreprocessing, createViews, normalizeTensor } from "./preprocessing-tensors"
 
-// Model metadata
-export const modelMetadata = {
-  mobilenet: {
-    inputSize: 224,
-    classes: 1000,
-    url: "https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v1_0.25_224/model.json",
-    normalization: "mobilenet" // [-1, 1]
-  },
-  efficientnet: {
-    inputSize: 224,
-    classes: 1000,
-    url: "https://tfhub.dev/tensorflow/tfjs-model/efficientnet/lite0/feature-vector/2/default/1",
-    normalization: "standard" // [0, 1]
-  },
-  resnet: {
-    inputSize: 224,
-    classes: 1000,
-    url: "https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v2_1.0_224/model.json",
-    normalization: "standard" // [0, 1]
-  }
-}
-
-// Global model cache
-const modelCache = new Map()
-
-// Load the model
-export async function loadModel(modelId = "mobilenet") {
-  // Initialize TensorFlow.js
-  await tf.ready()
+// A loaded model, independent of whether it came from a layers or graph artifact
+export type ClassifierModel = {
+  id: string
+  format: ModelFormat
+  // Set only on the opt-in demo model, whose predictions are fake
+  isDemo?: boolean
+  // Class names for each output index, checked against the model's output size at load time
+  labels: LabelSet
+  // Input and output signature read from the model itself
+  io: ModelIO
+  // Raw model output, probabilities or logits depending on io.outputKind. See toProbabilities.
+  predict: (input: tf.Tensor) => Promise<tf.Tensor>
+  dispose: () => void
+  // Bytes held by the model's weights
+  sizeBytes: number
+}
+
+// Global model cache. Only real, successfully loaded models are stored here.
+// Map iteration follows insertion order and hits are re-inserted, so the first entry is always
+// the least recently used one.
+const modelCache = new Map<string, ClassifierModel>()
+
+export type LoadModelOptions = {
+  // Byte budget for the offline IndexedDB copy; 0 disables offline storage
+  storageBudgetBytes?: number
+  onProgress?: LoadProgressCallback
+  // Aborting rejects the load with a "cancelled" ModelLoadError
+  signal?: AbortSignal
+  // TensorFlow.js backend to run on; "auto" uses the benchmarked fastest one
+  backend?: BackendPreference
+  // Least recently used models are disposed while tf.memory() reports more bytes than this
+  memoryBudgetBytes?: number
+}
+
+export type CachedModelInfo = {
+  id: string
+  sizeBytes: number
+}
+
+const DEFAULT_STORAGE_BUDGET_BYTES = 100 * 1024 * 1024
+const DEFAULT_MEMORY_BUDGET_BYTES = 256 * 1024 * 1024
+export const DEFAULT_TOP_K = 5
+
+// Initialize TensorFlow.js on the preferred backend. Models hold their weights on the backend they were
+// loaded on, so switching backends invalidates the whole cache. Every switch outside the benchmark goes
+// through here, demo mode included.
+export async function selectBackend(backend: BackendPreference, modelId: string): Promise<void> {
+  try {
+    if (await initializeBackend(backend)) {
+      console.log(`Switched to the ${tf.getBackend()} backend, reloading models`)
+      unloadAllModels()
+    }
+  } catch (error) {
+    throw new ModelLoadError(`TensorFlow.js backend failed to initialize: ${String(error)}`, "backend", modelId, {
+      cause: error,
+    })
+  }
+}
+
+// Load the model. Failures are thrown as ModelLoadError; nothing is substituted.
+export async function loadModel(modelId = DEFAULT_MODEL_ID, options: LoadModelOptions = {}): Promise<ClassifierModel> {
+  const {
+    storageBudgetBytes = DEFAULT_STORAGE_BUDGET_BYTES,
+    memoryBudgetBytes = DEFAULT_MEMORY_BUDGET_BYTES,
+    onProgress,
+    signal,
+    backend = "auto",
+  } = options
+
+  onProgress?.({ stage: "backend", fraction: 0 })
+  await selectBackend(backend, modelId)
+  onProgress?.({ stage: "backend", fraction: 1 })
 
   // Check if model is already cached
-  if (modelCache.has(modelId)) {
+  const cached = modelCache.get(modelId)
+  if (cached) {
     console.log(`Using cached ${modelId} model`)
-    return modelCache.get(modelId)
+    modelCache.delete(modelId)
+    modelCache.set(modelId, cached)
+    return cached
+  }
+
+  const descriptor = getModelDescriptor(modelId)
+  if (!descriptor) {
+    throw new ModelLoadError(`Unknown model: ${modelId}`, "format", modelId)
   }
 
+  let artifact: tf.LayersModel | tf.GraphModel | null = null
+  // Where the artifact came from: only validated downloads are copied to offline storage, and a stored
+  // copy that fails validation is removed so later visits download it again
+  let source: "files" | "app" | "storage" | "download" = "download"
   try {
-    console.log(`Loading ${modelId} model...`)
-    
-    const metadata = modelMetadata[modelId as keyof typeof modelMetadata]
-    if (!metadata) {
-      throw new Error(`Unknown model: ${modelId}`)
-    }
+    throwIfCancelled(signal, modelId)
+    if (descriptor.files) {
+      // Local files are already on this machine, so they are never copied to offline storage
+      console.log(`Loading ${modelId} model from local files...`)
+      source = "files"
+      artifact = await loadArtifact(descriptor, descriptor.url, onProgress, signal)
+    } else if (!isStorable(descriptor)) {
+      console.log(`Loading ${modelId} model from the app...`)
+      source = "app"
+      // Older versions of the app stored these too; a stale copy would shadow a retrained model
+      await removeStoredCopies(modelId).catch(() => {})
+      artifact = await loadArtifact(descriptor, descriptor.url, onProgress, signal)
+    } else {
+      artifact = await loadStoredArtifact(descriptor, onProgress)
 
-    // Load the model
-    const model = await tf.loadLayersModel(metadata.url)
+      if (artifact) {
+        source = "storage"
+      } else {
+        console.log(`Loading ${modelId} model...`)
+        artifact = await loadArtifact(descriptor, descriptor.url, onProgress, signal)
+      }
+    }
     console.log(`Successfully loaded ${modelId} model`)
-    
-    // Cache the model
+
+    if (artifact instanceof tf.LayersModel && artifact.layers.length === 0) {
+      throw new ModelLoadError(
+        `${descriptor.url} contains no layers. Train and convert the model before loading it.`,
+        "format",
+        modelId,
+      )
+    }
+
+    // The model's own signature decides the input size, with the registry filling in dynamic dimensions
+    const inputSignature = readInputSignature(artifact, modelId, descriptor.signature?.inputName)
+    const inputShape = resolveInputShape(inputSignature, descriptor)
+    const structuralKind = detectOutputKind(artifact, descriptor.signature?.outputName)
+
+    const predict =
+      artifact instanceof tf.GraphModel ? graphModelPredict(descriptor, artifact) : layersModelPredict(descriptor, artifact)
+
+    // Run once on a blank input so shader compilation doesn't land on the first real image.
+    // The output tells us how many classes the labels must cover and, if the structure didn't, whether it is logits.
+    throwIfCancelled(signal, modelId)
+    onProgress?.({ stage: "warmup", fraction: 0 })
+    const warmupInput = tf.zeros([1, ...inputShape], inputSignature.dtype)
+    let outputSize: number
+    let warmupValues: ArrayLike<number>
+    try {
+      const warmupOutput = await predict(warmupInput)
+      outputSize = warmupOutput.shape[warmupOutput.shape.length - 1]
+      warmupValues = await warmupOutput.data()
+      warmupOutput.dispose()
+    } finally {
+      warmupInput.dispose()
+    }
+    onProgress?.({ stage: "warmup", fraction: 1 })
+    throwIfCancelled(signal, modelId)
+
+    const outputKind =
+      structuralKind ?? descriptor.outputKind ?? (looksLikeProbabilities(warmupValues) ? "probabilities" : "logits")
+    const io: ModelIO = {
+      inputShape,
+      inputDtype: inputSignature.dtype,
+      outputSize,
+      outputKind,
+      batchSize: inputSignature.batchSize,
+    }
+
+    const labels = await resolveLabels(descriptor.labels, outputSize, modelId)
+    checkOutput(descriptor, outputSize, structuralKind)
+    console.log(`${modelId}: ${describeModelIO(io)}`)
+
+    throwIfCancelled(signal, modelId)
+    if (source === "download") {
+      await storeModel(descriptor, artifact, storageBudgetBytes)
+    }
+
+    const loadedArtifact = artifact
+    const model: ClassifierModel = {
+      id: descriptor.id,
+      format: descriptor.format,
+      labels,
+      io,
+      predict,
+      dispose: () => loadedArtifact.dispose(),
+      sizeBytes: weightBytes(loadedArtifact),
+    }
+
+    // Cache the model and make room for it by dropping the least recently used ones
     modelCache.set(modelId, model)
-    
+    evictModels(memoryBudgetBytes, modelId)
+
     return model
   } catch (error) {
+    artifact?.dispose()
+    if (source === "storage" && !signal?.aborted) {
+      await removeStoredModel(storageKey(descriptor)).catch(() => {})
+    }
+    if (signal?.aborted) {
+      throw new ModelLoadError(`Loading ${modelId} was cancelled`, "cancelled", modelId, { cause: error })
+    }
     console.error(`Failed to load ${modelId} model:`, error)
-    
-    // Create a simple mock model for fallback
-    const mockModel = {
-      predict: (input: tf.Tensor) => {
-        const batchSize = input.shape[0] || 1
-        const numClasses = modelMetadata[modelId as keyof typeof modelMetadata]?.classes || 1000
-        
-        // Create random but deterministic predictions based on input
-        const inputSum = tf.sum(input).dataSync()[0]
-        const seed = Math.floor(inputSum * 1000) % 1000
-        
-        const predictions = Array(numClasses).fill(0).map((_, i) => {
-          const val = Math.sin(i * seed + i) * 0.5 + 0.5
-          return val * val
-        })
-        
-        const sum = predictions.reduce((a, b) => a + b, 0)
-        const normalized = predictions.map(v => v / sum)
-        
-        return tf.tensor2d([normalized], [batchSize, numClasses])
-      }
+    throw toModelLoadError(error, modelId)
+  }
+}
+
+// Input size used when an uploaded model declares dynamic height/width/channels
+const DEFAULT_INPUT_SIZE = 224
+const DEFAULT_CHANNELS = 3
+
+export type ModelFilesInfo = {
+  inputShape: [number, number, number]
+  // Values the model outputs per image, i.e. how many classes its labels must cover
+  outputSize: number
+}
+
+// Load an uploaded model once to read its input size and count its outputs, then free it.
+// Failures are thrown as ModelLoadError.
+export async function inspectModelFiles(files: File[], format: ModelFormat, modelId: string): Promise<ModelFilesInfo> {
+  const handler = tf.io.browserFiles(files)
+  const artifact = await (format === "graph" ? tf.loadGraphModel(handler) : tf.loadLayersModel(handler)).catch(
+    (error) => {
+      throw toModelLoadError(error, modelId)
+    },
+  )
+
+  try {
+    // Dynamic dimensions get defaults here; fixed ones are taken from the model as-is
+    const inputSignature = readInputSignature(artifact, modelId)
+    const [height, width, channels] = inputSignature.shape
+    const inputShape: [number, number, number] = [
+      height ?? DEFAULT_INPUT_SIZE,
+      width ?? DEFAULT_INPUT_SIZE,
+      channels ?? DEFAULT_CHANNELS,
+    ]
+    return { inputShape, outputSize: await measureOutputSize(artifact, inputShape, inputSignature.dtype) }
+  } catch (error) {
+    throw toModelLoadError(error, modelId)
+  } finally {
+    artifact.dispose()
+  }
+}
+
+// Run one blank image through the model to learn how many classes it predicts
+async function measureOutputSize(
+  model: tf.LayersModel | tf.GraphModel,
+  inputShape: [number, number, number],
+  dtype: tf.DataType,
+) {
+  const input = tf.zeros([1, ...inputShape], dtype)
+  try {
+    const output = model instanceof tf.GraphModel ? await model.executeAsync(input) : model.predict(input)
+    const tensors = ([] as tf.Tensor[]).concat(output)
+    const size = tensors[0]?.shape[tensors[0].shape.length - 1] ?? 0
+    tf.dispose(tensors)
+    return size
+  } finally {
+    input.dispose()
+  }
+}
+
+// Drop a model from the in-memory cache and free its weights
+export function unloadModel(modelId: string) {
+  const model = modelCache.get(modelId)
+  if (model) {
+    model.dispose()
+    modelCache.delete(modelId)
+  }
+}
+
+export function listCachedModels(): CachedModelInfo[] {
+  return Array.from(modelCache.values()).map(({ id, sizeBytes }) => ({ id, sizeBytes }))
+}
+
+// Dispose least recently used models until TF.js memory fits the budget. The model just used is never evicted.
+function evictModels(budgetBytes: number, keepModelId: string) {
+  for (const modelId of Array.from(modelCache.keys())) {
+    if (tf.memory().numBytes <= budgetBytes) {
+      return
     }
-    
-    modelCache.set(modelId, mockModel)
-    return mockModel
-  }
-}
-
-// Preprocess image for model inference
-export async function preprocessImage(imageUrl: string, modelId = "mobilenet"): Promise<tf.Tensor> {
-  const metadata = modelMetadata[modelId as keyof typeof modelMetadata] || modelMetadata.mobilenet
-  const inputSize = metadata.inputSize
-
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    img.onload = () => {
-      try {
-        // Create a tensor from the image
-        const imageTensor = tf.browser
-          .fromPixels(img)
-          .resizeNearestNeighbor([inputSize, inputSize])
-          .toFloat()
-
-        // Apply model-specific normalization
-        let normalized
-        if (metadata.normalization === "mobilenet") {
-          // MobileNet normalization: [-1, 1]
-          normalized = imageTensor.div(tf.scalar(127.5)).sub(tf.scalar(1))
-        } else {
-          // Standard normalization: [0, 1]
-          normalized = imageTensor.div(tf.scalar(255))
-        }
-
-        // Add batch dimension [1, height, width, channels]
-        const batched = normalized.expandDims(0)
-
-        resolve(batched)
-      } catch (error) {
-        console.error("Error preprocessing image:", error)
-        reject(error)
+    if (modelId !== keepModelId) {
+      console.log(`Evicting ${modelId} model to stay within the memory budget`)
+      unloadModel(modelId)
+    }
+  }
+}
+
+function weightBytes(artifact: tf.LayersModel | tf.GraphModel): number {
+  const weights = artifact instanceof tf.GraphModel ? Object.values(artifact.weights).flat() : artifact.getWeights()
+  return weights.reduce((sum, tensor) => sum + tensor.size * tf.util.bytesPerElement(tensor.dtype), 0)
+}
+
+function unloadAllModels() {
+  for (const modelId of Array.from(modelCache.keys())) {
+    unloadModel(modelId)
+  }
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined, modelId: string) {
+  if (signal?.aborted) {
+    throw new ModelLoadError(`Loading ${modelId} was cancelled`, "cancelled", modelId)
+  }
+}
+
+// Load the offline copy from IndexedDB, discarding it if it turns out to be unreadable
+async function loadStoredArtifact(descriptor: ModelDescriptor, onProgress?: LoadProgressCallback) {
+  const storedUrl = await findStoredModel(descriptor)
+  if (!storedUrl) {
+    return null
+  }
+
+  try {
+    console.log(`Loading ${descriptor.id} model from offline storage...`)
+    onProgress?.({ stage: "weights", fraction: 0 })
+    const artifact = await loadArtifact(descriptor, storedUrl)
+    onProgress?.({ stage: "weights", fraction: 1 })
+    return artifact
+  } catch (error) {
+    console.error(`Stored copy of ${descriptor.id} is unreadable, downloading again:`, error)
+    await removeStoredModel(storageKey(descriptor)).catch(() => {})
+    return null
+  }
+}
+
+// Load the model with the loader matching its artifact format
+function loadArtifact(
+  descriptor: ModelDescriptor,
+  url: string,
+  onProgress?: LoadProgressCallback,
+  signal?: AbortSignal,
+): Promise<tf.LayersModel | tf.GraphModel> {
+  const loadOptions: tf.io.LoadOptions = {
+    fetchFunc: createProgressFetch(onProgress, signal),
+  }
+
+  if (descriptor.files) {
+    const handler = tf.io.browserFiles(descriptor.files)
+    return descriptor.format === "graph" ? tf.loadGraphModel(handler) : tf.loadLayersModel(handler)
+  }
+
+  return descriptor.format === "graph"
+    ? tf.loadGraphModel(url, { ...loadOptions, fromTFHub: isTFHubUrl(url) })
+    : tf.loadLayersModel(url, loadOptions)
+}
+
+function layersModelPredict(descriptor: ModelDescriptor, model: tf.LayersModel) {
+  return async (input: tf.Tensor) => pickOutput(model.predict(input), descriptor)
+}
+
+function graphModelPredict(descriptor: ModelDescriptor, model: tf.GraphModel) {
+  const { inputName, outputName } = descriptor.signature || {}
+
+  return async (input: tf.Tensor) => {
+    // Signature-based graph models expect their input keyed by name
+    const inputs = inputName ? { [inputName]: input } : input
+
+    try {
+      return pickOutput(outputName ? model.execute(inputs, outputName) : model.execute(inputs), descriptor)
+    } catch (error) {
+      // Models with control flow ops can only run asynchronously
+      if (error instanceof Error && error.message.includes("executeAsync")) {
+        return pickOutput(
+          outputName ? await model.executeAsync(inputs, outputName) : await model.executeAsync(inputs),
+          descriptor,
+        )
       }
+      throw error
     }
-    img.onerror = () => reject(new Error("Failed to load image"))
-    img.src = imageUrl
-  })
+  }
 }
 
-// Run inference
-export async function classifyImage(model: any, imageTensor: tf.Tensor, modelId = "mobilenet") {
+// Reduce a model's output to the single classification tensor, disposing any others
+function pickOutput(output: tf.Tensor | tf.Tensor[] | tf.NamedTensorMap, descriptor: ModelDescriptor): tf.Tensor {
+  if (output instanceof tf.Tensor) {
+    return output
+  }
+
+  const outputName = descriptor.signature?.outputName
+  const tensors = Array.isArray(output) ? output : Object.values(output)
+  const named = !Array.isArray(output) && outputName ? output[outputName] : undefined
+  const picked = named || tensors[0]
+
+  if (!picked) {
+    throw new Error(`Model ${descriptor.id} produced no output tensors`)
+  }
+
+  tf.dispose(tensors.filter((tensor) => tensor !== picked))
+  return picked
+}
+
+function isTFHubUrl(url: string) {
+  return url.startsWith("https://tfhub.dev/")
+}
+
+// Preprocess a decoded image into the input the loaded model declared. Runs on the main thread or inside the inference worker.
+// `steps` overrides the model's registered preprocessing pipeline.
+export function preprocessImage(
+  image: ImageBitmap | OffscreenCanvas,
+  model: ClassifierModel,
+  steps?: PreprocessingStep[],
+): tf.Tensor {
+  const { processed, input } = preprocessImageStages(image, model, steps)
+  processed.dispose()
+  return input
+}
+
+// Like preprocessImage, but also keeps the 0-255 image the pipeline produced before normalization,
+// so the visualization can show both, and the pipeline that ran. With test-time augmentation the input
+// batches every view and `processed` is the first one. The caller disposes both tensors.
+export function preprocessImageStages(
+  image: ImageBitmap | OffscreenCanvas,
+  model: ClassifierModel,
+  steps?: PreprocessingStep[],
+  tta: TtaMode = "off",
+): { processed: tf.Tensor3D; input: tf.Tensor; pipeline: PreprocessingStep[] } {
+  const descriptor = getModelDescriptor(model.id) || getModelDescriptor(DEFAULT_MODEL_ID)!
+  const [inputHeight, inputWidth, channels] = model.io.inputShape
+  const pipeline = steps || descriptor.preprocessing
+
+  const invalid = validatePipeline(pipeline)
+  if (invalid) {
+    throw new InferenceError(invalid, "format", model.id)
+  }
+
+  // fromPixels reads ImageBitmaps directly; an OffscreenCanvas is snapshotted into one first
+  const pixels = image instanceof ImageBitmap ? image : image.transferToImageBitmap()
+
   try {
-    console.log(`Running inference with ${modelId}...`)
-    
-    // Run prediction
-    const predictions = model.predict(imageTensor)
+    // Only the two results survive; the intermediate pixel, crop, resize and normalize tensors are freed
+    const stages = tf.tidy(() => {
+      // Create a tensor from the image and run the pipeline on 0-255 floats, giving a
+      // [views, height, width, channels] batch with a single view unless TTA is on
+      const imageTensor = tf.browser.fromPixels(pixels, channels).toFloat()
+      const views = createViews(imageTensor, pipeline, [inputHeight, inputWidth], tta)
+      const processed = views.slice(0, 1).squeeze([0]) as tf.Tensor3D
+      return { processed, input: toModelInput(views, model, descriptor) }
+    })
+    return { ...stages, pipeline }
+  } finally {
+    // The snapshot belongs to this call; a bitmap passed in stays open for the caller
+    if (pixels !== image) {
+      pixels.close()
+    }
+  }
+}
 
-    // Get top 5 predictions
-    const topPredictions = await getTopKPredictions(predictions, 5)
+// Preprocess square regions of an image, in source pixels, into one input batch for tiled classification.
+// Each region runs through the pipeline as if it were the whole image. The caller disposes the batch.
+export function preprocessRegions(
+  image: ImageBitmap,
+  model: ClassifierModel,
+  regions: { x: number; y: number; size: number }[],
+  steps?: PreprocessingStep[],
+): tf.Tensor {
+  const descriptor = getModelDescriptor(model.id) || getModelDescriptor(DEFAULT_MODEL_ID)!
+  const [inputHeight, inputWidth, channels] = model.io.inputShape
+  const pipeline = steps || descriptor.preprocessing
 
-    // Clean up tensors
-    tf.dispose([imageTensor, predictions])
+  const invalid = validatePipeline(pipeline)
+  if (invalid) {
+    throw new InferenceError(invalid, "format", model.id)
+  }
+
+  return tf.tidy(() => {
+    const imageTensor = tf.browser.fromPixels(image, channels).toFloat()
+    const views = regions.map(({ x, y, size }) =>
+      applyPreprocessing(tf.slice(imageTensor, [y, x, 0], [size, size, -1]), pipeline, [inputHeight, inputWidth]),
+    )
+    return toModelInput(tf.stack(views) as tf.Tensor4D, model, descriptor)
+  })
+}
+
+// Integer models take raw 0-255 pixels; float models get the descriptor's normalization. Call inside tf.tidy.
+function toModelInput(views: tf.Tensor4D, model: ClassifierModel, descriptor: ModelDescriptor): tf.Tensor {
+  if (model.io.inputDtype === "int32") {
+    return views.round().toInt()
+  }
+  return normalizeTensor(views, descriptor.normalization)
+}
+
+// Turn raw model output into calibrated probabilities: softmax(logits / temperature).
+// Probability outputs are scaled through their log, which is equivalent up to a constant.
+export function toProbabilities(output: tf.Tensor, outputKind: OutputKind, temperature = 1): tf.Tensor {
+  return tf.tidy(() => {
+    if (outputKind === "probabilities" && temperature === 1) {
+      return output.clone()
+    }
+    return tf.softmax(toLogits(output, outputKind).div(temperature))
+  })
+}
+
+export function toLogits(output: tf.Tensor, outputKind: OutputKind): tf.Tensor {
+  return tf.tidy(() => (outputKind === "logits" ? output.clone() : tf.log(output.clipByValue(1e-7, 1))))
+}
+
+// Run inference and keep the `topK` most likely classes, dropping any below `minProbability` after the first.
+// The input tensor is always disposed, whether inference succeeds or not.
+export async function classifyImage(
+  model: ClassifierModel,
+  imageTensor: tf.Tensor,
+  modelId = DEFAULT_MODEL_ID,
+  temperature = 1,
+  topK = DEFAULT_TOP_K,
+  minProbability = 0,
+) {
+  const probabilities = await predictProbabilities(model, imageTensor, modelId, temperature)
+  return getTopKPredictions(probabilities, topK, minProbability)
+}
 
-    return topPredictions
+// Run the model and read its calibrated probabilities back. Disposes the image tensor.
+export async function predictProbabilities(
+  model: ClassifierModel,
+  imageTensor: tf.Tensor,
+  modelId = DEFAULT_MODEL_ID,
+  temperature = 1,
+): Promise<Float32Array> {
+  let output: tf.Tensor | null = null
+  let probabilities: tf.Tensor | null = null
+  try {
+    console.log(`Running inference with ${modelId}...`)
+
+    // Run prediction
+    output = await model.predict(imageTensor)
+    probabilities = toProbabilities(output, model.io.outputKind, temperature)
+    return (await probabilities.data()) as Float32Array
   } catch (error) {
     console.error("Error during classification:", error)
-    throw error
+    throw toInferenceError(error, modelId)
+  } finally {
+    // Clean up tensors
+    tf.dispose([imageTensor, output, probabilities].filter((tensor): tensor is tf.Tensor => tensor !== null))
   }
 }
 
-// Get top K predictions
-async function getTopKPredictions(predictions: tf.Tensor, k: number) {
-  const values = await predictions.data() as Float32Array
-  const valuesAndIndices = Array.from(values).map((value, index) => ({
-    value: value as number,
-    index,
-  }))
+// Probabilities of each view in a [views, height, width, channels] batch. The views go through
+// one predict call unless the model is fixed to another batch size. Disposes the batch.
+export async function predictViews(
+  model: ClassifierModel,
+  batch: tf.Tensor,
+  modelId = DEFAULT_MODEL_ID,
+  temperature = 1,
+): Promise<Float32Array[]> {
+  const viewCount = batch.shape[0] || 1
+  const { batchSize, outputSize } = model.io
 
-  // Sort by probability (descending)
-  const sorted = valuesAndIndices.sort((a, b) => b.value - a.value)
+  if (batchSize === null || batchSize === viewCount) {
+    const probabilities = await predictProbabilities(model, batch, modelId, temperature)
+    return Array.from({ length: viewCount }, (_, i) => probabilities.slice(i * outputSize, (i + 1) * outputSize))
+  }
 
-  // Get top K
-  const topK = sorted.slice(0, k)
+  const views = tf.split(batch, viewCount)
+  batch.dispose()
+  const results: Float32Array[] = []
+  try {
+    for (const view of views) {
+      results.push(await predictProbabilities(model, view, modelId, temperature))
+    }
+  } finally {
+    tf.dispose(views)
+  }
+  return results
+}
 
-  return topK.map((item) => ({
-    classIndex: item.index,
-    probability: item.value,
-  }))
+// The k most likely classes, most likely first. Classes below `minProbability` are dropped,
+// except the top one, so there is always a prediction to show.
+export async function getTopKPredictions(values: Float32Array, k: number, minProbability = 0) {
+  const { values: topValues, indices } = tf.tidy(() => tf.topk(tf.tensor1d(values), Math.min(k, values.length)))
+  try {
+    const [probabilities, classIndices] = await Promise.all([topValues.data(), indices.data()])
+    return Array.from(classIndices, (classIndex, i) => ({ classIndex, probability: probabilities[i] })).filter(
+      (prediction, i) => i === 0 || prediction.probability >= minProbability,
+    )
+  } finally {
+    tf.dispose([topValues, indices])
+  }
 }
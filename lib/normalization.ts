@@ -0,0 +1,72 @@
+import type { ChannelOrder } from "./preprocessing"
+
+// Typed normalization: how 0-255 pixels become the values a model was trained on.
+// For each channel c (in the model's channel order):
+//   value = (pixel * scale + offset - mean[c]) / std[c]
+// normalizeTensor in preprocessing-tensors.ts applies it.
+
+export type NormalizationSpec = {
+  // Decoded pixels are RGB; "bgr" reverses them before mean/std, which are given in the model's order
+  channelOrder?: ChannelOrder
+  scale: number
+  offset?: number
+  mean?: [number, number, number]
+  std?: [number, number, number]
+}
+
+export type NormalizationPreset = "standard" | "mobilenet" | "imagenet" | "caffe"
+
+export const normalizationPresets: Record<NormalizationPreset, NormalizationSpec> = {
+  // [0, 1]
+  standard: { scale: 1 / 255 },
+  // [-1, 1], as used by MobileNet and Inception
+  mobilenet: { scale: 1 / 127.5, offset: -1 },
+  // PyTorch/torchvision ImageNet statistics
+  imagenet: { scale: 1 / 255, mean: [0.485, 0.456, 0.406], std: [0.229, 0.224, 0.225] },
+  // Keras "caffe" mode: BGR, 0-255 with the ImageNet BGR mean subtracted
+  caffe: { channelOrder: "bgr", scale: 1, mean: [103.939, 116.779, 123.68] },
+}
+
+export const normalizationPresetLabels: Record<NormalizationPreset, string> = {
+  standard: "[0, 1]",
+  mobilenet: "[-1, 1]",
+  imagenet: "ImageNet mean/std",
+  caffe: "Caffe (BGR, mean subtracted)",
+}
+
+export function findNormalizationPreset(spec: NormalizationSpec): NormalizationPreset | null {
+  const key = JSON.stringify(spec)
+  const presets = Object.keys(normalizationPresets) as NormalizationPreset[]
+  return presets.find((preset) => JSON.stringify(normalizationPresets[preset]) === key) || null
+}
+
+// Smallest and largest value each channel can take after normalization
+export function normalizedRange(spec: NormalizationSpec): [number, number][] {
+  return [0, 1, 2].map((channel) => {
+    const low = normalizeValue(0, channel, spec)
+    const high = normalizeValue(255, channel, spec)
+    return [Math.min(low, high), Math.max(low, high)]
+  })
+}
+
+// Human-readable summary, e.g. "[-1, 1]" or "ImageNet mean/std"
+export function describeNormalization(spec: NormalizationSpec): string {
+  const preset = findNormalizationPreset(spec)
+  if (preset) {
+    return normalizationPresetLabels[preset]
+  }
+
+  const ranges = normalizedRange(spec)
+  const sameRange = ranges.every(([low, high]) => low === ranges[0][0] && high === ranges[0][1])
+  const range = sameRange ? `[${format(ranges[0][0])}, ${format(ranges[0][1])}]` : "per-channel mean/std"
+  return spec.channelOrder === "bgr" ? `BGR ${range}` : range
+}
+
+function normalizeValue(pixel: number, channel: number, spec: NormalizationSpec): number {
+  const scaled = pixel * spec.scale + (spec.offset ?? 0)
+  return (scaled - (spec.mean?.[channel] ?? 0)) / (spec.std?.[channel] ?? 1)
+}
+
+function format(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
@@ -0,0 +1,165 @@
+import * as tf from "@tensorflow/tfjs"
+import type { PreprocessingStep, ResizeMethod } from "./preprocessing"
+import { CROPS, CROP_RATIO, type CropPosition, SCALES, type TtaMode } from "./augmentation"
+import type { NormalizationSpec } from "./normalization"
+
+// The tensor side of preprocessing: the pipeline steps, test-time augmentation views and normalization.
+// Only the inference worker runs these. The step types, presets and descriptions the settings and results
+// views need stay in preprocessing.ts, augmentation.ts and normalization.ts, which don't load TensorFlow.js.
+
+// Run the steps on a float [height, width, channels] image of 0-255 values.
+// The result always has the target size: if the steps don't end there, a bilinear resize finishes the job.
+// Call inside tf.tidy; intermediate tensors are not disposed here.
+export function applyPreprocessing(
+  image: tf.Tensor3D,
+  steps: PreprocessingStep[],
+  [targetHeight, targetWidth]: [number, number],
+): tf.Tensor3D {
+  let result = image
+
+  for (const step of steps) {
+    switch (step.type) {
+      case "resize":
+        result = resize(result, step.method, step.antialias ?? false, targetHeight, targetWidth)
+        break
+      case "center-crop":
+        result = centerCrop(result, step.ratio, targetWidth / targetHeight)
+        break
+      case "letterbox":
+        result = letterbox(result, step.fill ?? 0, targetWidth / targetHeight)
+        break
+      case "channel-order":
+        // Decoded pixels are RGB, so BGR only needs the channel axis reversed
+        if (step.order === "bgr" && result.shape[2] === 3) {
+          result = tf.reverse(result, -1)
+        }
+        break
+    }
+  }
+
+  const [height, width] = result.shape
+  if (height !== targetHeight || width !== targetWidth) {
+    result = resize(result, "bilinear", true, targetHeight, targetWidth)
+  }
+
+  return result
+}
+
+function resize(image: tf.Tensor3D, method: ResizeMethod, antialias: boolean, height: number, width: number) {
+  let source = image
+  const factor = Math.min(Math.floor(image.shape[0] / height), Math.floor(image.shape[1] / width))
+
+  // Box-filter integer downscales first; the final resize then only covers less than a factor of 2
+  if (antialias && factor >= 2) {
+    source = tf.avgPool(image, [factor, factor], [factor, factor], "valid")
+  }
+
+  return method === "nearest"
+    ? tf.image.resizeNearestNeighbor(source, [height, width], false, true)
+    : tf.image.resizeBilinear(source, [height, width], false, true)
+}
+
+function centerCrop(image: tf.Tensor3D, ratio: number, aspect: number) {
+  const [height, width] = image.shape
+
+  // Largest centered region with the target aspect ratio, then scaled down by the crop ratio
+  const regionWidth = width / height > aspect ? height * aspect : width
+  const regionHeight = regionWidth / aspect
+  const cropHeight = Math.max(1, Math.round(regionHeight * ratio))
+  const cropWidth = Math.max(1, Math.round(regionWidth * ratio))
+
+  const top = Math.floor((height - cropHeight) / 2)
+  const left = Math.floor((width - cropWidth) / 2)
+  return tf.slice(image, [top, left, 0], [cropHeight, cropWidth, -1])
+}
+
+function letterbox(image: tf.Tensor3D, fill: number, aspect: number) {
+  const [height, width] = image.shape
+  const paddedHeight = Math.max(height, Math.round(width / aspect))
+  const paddedWidth = Math.max(width, Math.round(height * aspect))
+
+  const top = Math.floor((paddedHeight - height) / 2)
+  const left = Math.floor((paddedWidth - width) / 2)
+  return tf.pad(
+    image,
+    [
+      [top, paddedHeight - height - top],
+      [left, paddedWidth - width - left],
+      [0, 0],
+    ],
+    fill,
+  )
+}
+
+// Run the pipeline and cut the views out of its result: a [views, height, width, channels] batch
+// of 0-255 values. The first view is always the plain preprocessed image. Call inside tf.tidy.
+export function createViews(
+  image: tf.Tensor3D,
+  steps: PreprocessingStep[],
+  [height, width]: [number, number],
+  mode: TtaMode,
+): tf.Tensor4D {
+  switch (mode) {
+    case "off":
+      return applyPreprocessing(image, steps, [height, width]).expandDims(0)
+    case "flip": {
+      const view = applyPreprocessing(image, steps, [height, width])
+      return tf.stack([view, tf.reverse(view, 1)]) as tf.Tensor4D
+    }
+    case "five-crop":
+    case "ten-crop": {
+      const enlarged = applyPreprocessing(image, steps, [
+        Math.round(height / CROP_RATIO),
+        Math.round(width / CROP_RATIO),
+      ])
+      const crops = fiveCrop(enlarged, height, width)
+      const views = mode === "ten-crop" ? [...crops, ...crops.map((crop) => tf.reverse(crop, 1))] : crops
+      return tf.stack(views) as tf.Tensor4D
+    }
+    case "multi-scale": {
+      const views = SCALES.map((scale) => {
+        const scaled = applyPreprocessing(image, steps, [Math.round(height * scale), Math.round(width * scale)])
+        return cropAt(scaled, height, width, "center")
+      })
+      return tf.stack(views) as tf.Tensor4D
+    }
+  }
+}
+
+function fiveCrop(image: tf.Tensor3D, height: number, width: number): tf.Tensor3D[] {
+  return CROPS.map((crop) => cropAt(image, height, width, crop))
+}
+
+function cropAt(image: tf.Tensor3D, height: number, width: number, crop: CropPosition): tf.Tensor3D {
+  const [imageHeight, imageWidth] = image.shape
+  const bottom = imageHeight - height
+  const right = imageWidth - width
+  const offsets: Record<CropPosition, [number, number]> = {
+    center: [Math.floor(bottom / 2), Math.floor(right / 2)],
+    "top-left": [0, 0],
+    "top-right": [0, right],
+    "bottom-left": [bottom, 0],
+    "bottom-right": [bottom, right],
+  }
+  const [top, left] = offsets[crop]
+  return tf.slice(image, [top, left, 0], [height, width, -1])
+}
+
+// Normalize a [..., channels] tensor of 0-255 RGB values. Call inside tf.tidy.
+export function normalizeTensor(image: tf.Tensor, spec: NormalizationSpec): tf.Tensor {
+  const channels = image.shape[image.shape.length - 1] || 1
+  let result = spec.channelOrder === "bgr" && channels === 3 ? tf.reverse(image, -1) : image
+
+  result = result.mul(spec.scale)
+  if (spec.offset) {
+    result = result.add(spec.offset)
+  }
+  // Grayscale inputs use the first channel's statistics
+  if (spec.mean) {
+    result = result.sub(tf.tensor1d(spec.mean.slice(0, channels)))
+  }
+  if (spec.std) {
+    result = result.div(tf.tensor1d(spec.std.slice(0, channels)))
+  }
+  return result
+}
@@ -0,0 +1,70 @@
+// Preprocessing described as an ordered list of typed steps, applied to the decoded image
+// before normalization. Each model declares its pipeline in the registry; users can override
+// it per model in the advanced settings. The steps run on tensors in preprocessing-tensors.ts.
+
+export type ResizeMethod = "nearest" | "bilinear"
+
+export type ChannelOrder = "rgb" | "bgr"
+
+export type PreprocessingStep =
+  // Resize to the model's input size, stretching if the aspect ratios differ.
+  // Antialiasing box-filters large downscales first so fine detail doesn't alias.
+  | { type: "resize"; method: ResizeMethod; antialias?: boolean }
+  // Keep the central region with the model's aspect ratio, scaled by `ratio` (e.g. 0.875)
+  | { type: "center-crop"; ratio: number }
+  // Pad to the model's aspect ratio instead of stretching; `fill` is the 0-255 pad value
+  | { type: "letterbox"; fill?: number }
+  | { type: "channel-order"; order: ChannelOrder }
+
+export type PreprocessingStepType = PreprocessingStep["type"]
+
+export const DEFAULT_PREPROCESSING: PreprocessingStep[] = [{ type: "resize", method: "bilinear", antialias: true }]
+
+// The usual ImageNet evaluation: crop the central 87.5% and resize, so photos aren't stretched
+export const IMAGENET_PREPROCESSING: PreprocessingStep[] = [
+  { type: "center-crop", ratio: 0.875 },
+  { type: "resize", method: "bilinear", antialias: true },
+]
+
+export const defaultSteps: Record<PreprocessingStepType, PreprocessingStep> = {
+  resize: { type: "resize", method: "bilinear", antialias: true },
+  "center-crop": { type: "center-crop", ratio: 0.875 },
+  letterbox: { type: "letterbox", fill: 0 },
+  "channel-order": { type: "channel-order", order: "bgr" },
+}
+
+export function describeStep(step: PreprocessingStep): string {
+  switch (step.type) {
+    case "resize":
+      return `Resize (${step.method}${step.antialias ? ", antialiased" : ""})`
+    case "center-crop":
+      return `Center crop ${Math.round(step.ratio * 100)}%`
+    case "letterbox":
+      return `Letterbox (fill ${step.fill ?? 0})`
+    case "channel-order":
+      return `Channel order ${step.order.toUpperCase()}`
+  }
+}
+
+export function describePipeline(steps: PreprocessingStep[]): string {
+  return steps.map(describeStep).join(" → ")
+}
+
+// Channel order of the pipeline's output: every BGR step reverses the channels again
+export function pipelineChannelOrder(steps: PreprocessingStep[]): ChannelOrder {
+  const reversals = steps.filter((step) => step.type === "channel-order" && step.order === "bgr").length
+  return reversals % 2 === 0 ? "rgb" : "bgr"
+}
+
+// Reject step values that can't produce an image, e.g. from a hand-edited override
+export function validatePipeline(steps: PreprocessingStep[]): string | null {
+  for (const step of steps) {
+    if (step.type === "center-crop" && !(step.ratio > 0 && step.ratio <= 1)) {
+      return `Center crop ratio must be between 0 and 1, got ${step.ratio}`
+    }
+    if (step.type === "letterbox" && step.fill !== undefined && !(step.fill >= 0 && step.fill <= 255)) {
+      return `Letterbox fill must be between 0 and 255, got ${step.fill}`
+    }
+  }
+  return null
+}
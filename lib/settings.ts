@@ -0,0 +1,78 @@
+import type { BackendPreference } from "./backend-info"
+import type { PreprocessingStep } from "./preprocessing"
+import type { TtaSettings } from "./augmentation"
+import type { TilingSettings } from "./tiling"
+import type { HedgingSettings } from "./hedging"
+
+// User settings persisted in localStorage
+
+export type AppSettings = {
+  // Use a clearly labeled fake model instead of real predictions
+  demoMode: boolean
+  // Disk budget for offline model copies in IndexedDB; 0 disables offline storage
+  storageBudgetMB: number
+  // TensorFlow.js backend; "auto" uses the fastest one found by the first-run benchmark
+  backend: BackendPreference
+  // Loaded models are evicted least recently used first once TF.js memory exceeds this
+  memoryBudgetMB: number
+  // Developer panel plotting tensor count and bytes over time
+  showTensorMonitor: boolean
+  // Fitted calibration temperature per model id; models without an entry use 1
+  temperatures: Record<string, number>
+  // Preprocessing pipelines that replace a model's registered one, by model id
+  preprocessingOverrides: Record<string, PreprocessingStep[]>
+  // Test-time augmentation: which views of an image to classify and how to combine them
+  tta: TtaSettings
+  // Sliding-window classification of single images, reported as a heatmap per class found
+  tiling: TilingSettings
+  // Predictions listed per image, and the probability below which the ones after the first are hidden
+  topK: number
+  minProbability: number
+  // Also answer with the most specific hierarchy node whose summed probability reaches a confidence target
+  hedging: HedgingSettings
+}
+
+export const defaultSettings: AppSettings = {
+  demoMode: false,
+  storageBudgetMB: 100,
+  backend: "auto",
+  memoryBudgetMB: 256,
+  showTensorMonitor: false,
+  temperatures: {},
+  preprocessingOverrides: {},
+  tta: { mode: "off", reduction: "mean" },
+  tiling: { enabled: false, divisions: [2], overlap: 0.25 },
+  topK: 5,
+  minProbability: 0,
+  hedging: { enabled: false, confidenceTarget: 0.9 },
+}
+
+const STORAGE_KEY = "image-classifier-settings"
+export const SETTINGS_CHANGE_EVENT = "settings-change"
+
+export function loadSettings(): AppSettings {
+  if (typeof window === "undefined") {
+    return defaultSettings
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : defaultSettings
+  } catch (error) {
+    console.error("Failed to read settings:", error)
+    return defaultSettings
+  }
+}
+
+export function saveSettings(update: Partial<AppSettings>): AppSettings {
+  const settings = { ...loadSettings(), ...update }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error("Failed to save settings:", error)
+  }
+
+  window.dispatchEvent(new CustomEvent(SETTINGS_CHANGE_EVENT, { detail: settings }))
+  return settings
+}
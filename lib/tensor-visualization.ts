@@ -0,0 +1,110 @@
+import type { Tensor } from "@tensorflow/tfjs"
+import type { ChannelOrder } from "./preprocessing"
+
+// Copies of the tensors the inference worker fed the model, rendered on the main thread
+// so the preprocessing view shows exactly what the model saw.
+
+export type TensorSnapshot = {
+  // [height, width, channels], without the batch dimension
+  shape: [number, number, number]
+  data: Float32Array
+  // Values mapped to black and white when rendered
+  range: [number, number]
+  // Order of the channels in `data`; rendering puts them back in RGB
+  channelOrder: ChannelOrder
+}
+
+export type ChannelStats = {
+  name: string
+  min: number
+  max: number
+  mean: number
+  // Counts over `range`, split into equal-width bins
+  histogram: number[]
+}
+
+// Read a [height, width, channels] tensor, or the first image of a batch, into a snapshot. Does not dispose it.
+export async function snapshotTensor(
+  tensor: Tensor,
+  range: [number, number],
+  channelOrder: ChannelOrder,
+): Promise<TensorSnapshot> {
+  const [height, width, channels] = tensor.shape.slice(-3)
+  const first = tensor.rank === 4 && tensor.shape[0] > 1 ? tensor.slice(0, 1) : tensor
+  const values = await first.data()
+  if (first !== tensor) {
+    first.dispose()
+  }
+  return {
+    shape: [height, width, channels],
+    data: values instanceof Float32Array ? values : Float32Array.from(values as ArrayLike<number>),
+    range,
+    channelOrder,
+  }
+}
+
+export function channelNames(snapshot: TensorSnapshot): string[] {
+  if (snapshot.shape[2] === 1) {
+    return ["Gray"]
+  }
+  return snapshot.channelOrder === "bgr" ? ["B", "G", "R"] : ["R", "G", "B"]
+}
+
+export function channelStats(snapshot: TensorSnapshot, bins = 32): ChannelStats[] {
+  const channels = snapshot.shape[2]
+  const [low, high] = snapshot.range
+  const binWidth = (high - low) / bins || 1
+
+  return channelNames(snapshot).map((name, channel) => {
+    const histogram = new Array<number>(bins).fill(0)
+    let min = Infinity
+    let max = -Infinity
+    let sum = 0
+    let count = 0
+
+    for (let i = channel; i < snapshot.data.length; i += channels) {
+      const value = snapshot.data[i]
+      min = Math.min(min, value)
+      max = Math.max(max, value)
+      sum += value
+      count++
+      // Values outside the display range land in the first or last bin
+      histogram[Math.min(bins - 1, Math.max(0, Math.floor((value - low) / binWidth)))]++
+    }
+
+    return { name, min, max, mean: count ? sum / count : 0, histogram }
+  })
+}
+
+// Values of every channel at pixel (x, y), in the snapshot's channel order
+export function valueAt(snapshot: TensorSnapshot, x: number, y: number): number[] {
+  const [height, width, channels] = snapshot.shape
+  const row = Math.min(height - 1, Math.max(0, Math.floor(y)))
+  const column = Math.min(width - 1, Math.max(0, Math.floor(x)))
+  const offset = (row * width + column) * channels
+  return Array.from(snapshot.data.subarray(offset, offset + channels))
+}
+
+// Draw the snapshot at its own resolution, with `range` stretched to 0-255 and the channels in RGB order.
+// Plain canvas code, so the main thread renders snapshots without loading TensorFlow.js.
+export function renderSnapshot(snapshot: TensorSnapshot, canvas: HTMLCanvasElement) {
+  const [height, width, channels] = snapshot.shape
+  const [low, high] = snapshot.range
+  const span = high - low || 1
+  const bgr = snapshot.channelOrder === "bgr" && channels === 3
+  const image = new ImageData(width, height)
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    for (let channel = 0; channel < 3; channel++) {
+      // Grayscale repeats its single channel; BGR is read back to front
+      const source = channels === 1 ? 0 : bgr ? 2 - channel : channel
+      const value = (snapshot.data[pixel * channels + source] - low) / span
+      image.data[pixel * 4 + channel] = Math.round(Math.min(1, Math.max(0, value)) * 255)
+    }
+    image.data[pixel * 4 + 3] = 255
+  }
+
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext("2d")!.putImageData(image, 0, 0)
+}
@@ -0,0 +1,133 @@
+// Tiled classification: slide square windows over the image at one or more scales and classify
+// each one, so photos with several subjects aren't squashed into a single prediction.
+
+export type TilingSettings = {
+  enabled: boolean
+  // Windows across the image's short side, one entry per scale; 2 means each window spans about half of it
+  divisions: number[]
+  // Fraction of a window shared with its neighbor, 0 to 0.5
+  overlap: number
+}
+
+// A square window in the source image's pixels
+export type Tile = {
+  x: number
+  y: number
+  size: number
+  // The scale it belongs to
+  division: number
+}
+
+// A class that came out on top somewhere in the image
+export type TileClass = {
+  classIndex: number
+  className: string
+  // Highest probability in any tile
+  probability: number
+  // Tiles where it was the confident top prediction
+  tileCount: number
+  // Its probability in every tile, aligned with TiledSummary.tiles
+  heat: number[]
+}
+
+export type TiledSummary = {
+  // Source image size the tiles refer to
+  width: number
+  height: number
+  tiles: Tile[]
+  // Most widespread first
+  classes: TileClass[]
+}
+
+export const tileDivisionPresets: { label: string; divisions: number[] }[] = [
+  { label: "Coarse (2 per side)", divisions: [2] },
+  { label: "Fine (3 per side)", divisions: [3] },
+  { label: "Multi-scale (2, 3, 4)", divisions: [2, 3, 4] },
+]
+
+export const tileOverlapOptions = [0, 0.25, 0.5]
+
+// Finer scales are dropped once they'd go past this, so huge panoramas stay affordable
+export const MAX_TILES = 96
+
+// A tile's top class only counts as found above this probability
+const MIN_TILE_CONFIDENCE = 0.3
+
+const MAX_CLASSES = 8
+
+export function tileLayout(width: number, height: number, { divisions, overlap }: TilingSettings): Tile[] {
+  const scales = [...new Set(divisions)].filter((division) => division >= 1).sort((a, b) => a - b)
+  const tiles: Tile[] = []
+
+  for (const division of scales) {
+    // `division` windows with the given overlap exactly span the short side. On a tiny image the finer
+    // scales would round to empty windows, so they keep at least one pixel.
+    const size = Math.max(1, Math.floor(Math.min(width, height) / (division - (division - 1) * overlap)))
+    const stride = Math.max(1, size * (1 - overlap))
+    const rows = windowCount(height, size, stride)
+    const columns = windowCount(width, size, stride)
+
+    if (tiles.length > 0 && tiles.length + rows * columns > MAX_TILES) {
+      break
+    }
+    // Even the coarsest scale can overflow on a panorama; its windows then spread out along the long side
+    const maxPerLine = Math.max(1, Math.floor(MAX_TILES / Math.min(rows, columns)))
+    for (const y of windowOffsets(height, size, width > height ? rows : Math.min(rows, maxPerLine))) {
+      for (const x of windowOffsets(width, size, width > height ? Math.min(columns, maxPerLine) : columns)) {
+        tiles.push({ x, y, size, division })
+      }
+    }
+  }
+
+  return tiles
+}
+
+// Windows needed so neighbors start no further apart than `stride`. The slack absorbs the rounding of `size`.
+function windowCount(length: number, size: number, stride: number): number {
+  return Math.max(1, Math.ceil((length - size) / stride - 0.05) + 1)
+}
+
+// `count` window starts spread evenly from one edge to the other
+function windowOffsets(length: number, size: number, count: number): number[] {
+  if (count === 1) {
+    return [Math.floor((length - size) / 2)]
+  }
+  return Array.from({ length: count }, (_, i) => Math.round((i * (length - size)) / (count - 1)))
+}
+
+// Collect the classes that top any tile with confidence, or the single strongest one if none does
+export function findTileClasses(probabilities: Float32Array[], labelOf: (classIndex: number) => string): TileClass[] {
+  const tops = probabilities.map((tile) => {
+    let best = 0
+    for (let i = 1; i < tile.length; i++) {
+      if (tile[i] > tile[best]) {
+        best = i
+      }
+    }
+    return { classIndex: best, probability: tile[best] }
+  })
+
+  const counts = new Map<number, number>()
+  for (const top of tops) {
+    if (top.probability >= MIN_TILE_CONFIDENCE) {
+      counts.set(top.classIndex, (counts.get(top.classIndex) || 0) + 1)
+    }
+  }
+  if (counts.size === 0 && tops.length > 0) {
+    const strongest = tops.reduce((best, top) => (top.probability > best.probability ? top : best))
+    counts.set(strongest.classIndex, 0)
+  }
+
+  return Array.from(counts, ([classIndex, tileCount]) => {
+    const heat = probabilities.map((tile) => tile[classIndex])
+    return {
+      classIndex,
+      className: labelOf(classIndex),
+      probability: Math.max(...heat),
+      tileCount,
+      heat,
+    }
+  })
+    .sort((a, b) => b.tileCount - a.tileCount || b.probability - a.probability)
+    .slice(0, MAX_CLASSES)
+}
@@ -0,0 +1,148 @@
+// Generates lib/imagenet-hypernyms.ts, the WordNet is-a hierarchy above the ImageNet classes.
+//
+//   node scripts/generate-imagenet-hierarchy.mjs path/to/WordNet-3.0/dict/data.noun
+//
+// ImageNet synset ids are WordNet 3.0 noun offsets, so the data file must come from WordNet 3.0.
+// Every class is followed up its first hypernym to "entity". Hypernyms with a single child in the
+// resulting tree ("physical entity" above only "object", "chordate" above only "vertebrate", ...) are
+// collapsed, so each remaining node is a branch point and each parent a real WordNet ancestor.
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const dataPath = process.argv[2]
+if (!dataPath) {
+  console.error("Usage: node scripts/generate-imagenet-hierarchy.mjs path/to/WordNet-3.0/dict/data.noun")
+  process.exit(1)
+}
+
+// offset → { name, lemmas, hypernym }
+const synsets = new Map()
+for (const line of readFileSync(dataPath, "utf8").split("\n")) {
+  if (!line || line.startsWith("  ")) continue
+  const fields = line.slice(0, line.indexOf(" | ")).split(" ")
+  const wordCount = parseInt(fields[3], 16)
+  const lemmas = Array.from({ length: wordCount }, (_, i) => fields[4 + i * 2].replace(/_/g, " "))
+  let cursor = 4 + wordCount * 2
+  const pointerCount = Number(fields[cursor++])
+  let hypernym = null
+  for (let i = 0; i < pointerCount; i++, cursor += 4) {
+    // "@" is a hypernym, "@i" the class of an instance
+    if (!hypernym && (fields[cursor] === "@" || fields[cursor] === "@i")) {
+      hypernym = `n${fields[cursor + 1]}`
+    }
+  }
+  synsets.set(`n${fields[0]}`, { name: lemmas[0], lemmas, hypernym })
+}
+
+const classesSource = readFileSync(join(root, "lib/imagenet-classes.ts"), "utf8")
+const wnids = [...classesSource.matchAll(/\["(n\d{8})", "/g)].map((match) => match[1])
+if (wnids.length !== 1000) {
+  throw new Error(`Expected 1000 ImageNet synsets, found ${wnids.length}`)
+}
+const classIndex = new Map(wnids.map((wnid, index) => [wnid, index]))
+
+// Full hypernym tree above the classes: wnid → child wnids (hypernyms and classes)
+const children = new Map()
+for (const wnid of wnids) {
+  let child = wnid
+  while (true) {
+    const synset = synsets.get(child)
+    if (!synset) throw new Error(`${child} is not a WordNet 3.0 noun synset`)
+    if (!synset.hypernym) break
+    if (classIndex.has(synset.hypernym)) {
+      throw new Error(`${wnid} lies below another class, ${synset.hypernym}`)
+    }
+    // The rest of the chain was walked from an earlier class
+    const walked = children.has(synset.hypernym)
+    const siblings = children.get(synset.hypernym) ?? new Set()
+    siblings.add(child)
+    children.set(synset.hypernym, siblings)
+    if (walked) break
+    child = synset.hypernym
+  }
+}
+
+const rootId = [...children.keys()].find((wnid) => !synsets.get(wnid).hypernym)
+const isKept = (wnid) => wnid === rootId || children.get(wnid).size > 1
+
+// Nearest kept ancestor of a class or hypernym
+function keptParent(wnid) {
+  let parent = synsets.get(wnid).hypernym
+  while (parent && !isKept(parent)) {
+    parent = synsets.get(parent).hypernym
+  }
+  return parent
+}
+
+// Kept nodes in depth-first order from the root, so parents always come before their children
+const nodes = []
+const nodeClasses = new Map()
+function visit(wnid) {
+  for (const child of [...children.get(wnid)].sort()) {
+    if (classIndex.has(child)) {
+      const parent = keptParent(child)
+      nodeClasses.set(parent, [...(nodeClasses.get(parent) ?? []), classIndex.get(child)])
+    } else {
+      if (isKept(child)) nodes.push(child)
+      visit(child)
+    }
+  }
+}
+nodes.push(rootId)
+visit(rootId)
+
+// Breadcrumbs and roll-ups go by name, so synsets sharing a first lemma are told apart by their parent,
+// or by another lemma where the parent is shared too: "food (nutrient)" and "food (solid food)"
+function countNames(names) {
+  const counts = new Map()
+  for (const name of names) counts.set(name, (counts.get(name) ?? 0) + 1)
+  return counts
+}
+const lemmaCounts = countNames(nodes.map((wnid) => synsets.get(wnid).name))
+const byParent = (wnid) => `${synsets.get(wnid).name} (${synsets.get(keptParent(wnid)).name})`
+const parentCounts = countNames(nodes.filter((wnid) => lemmaCounts.get(synsets.get(wnid).name) > 1).map(byParent))
+function nodeName(wnid) {
+  const { name, lemmas } = synsets.get(wnid)
+  if (lemmaCounts.get(name) === 1) return name
+  if (parentCounts.get(byParent(wnid)) === 1) return byParent(wnid)
+  if (lemmas.length > 1) return `${name} (${lemmas[1]})`
+  throw new Error(`No unique name for ${wnid} (${name})`)
+}
+
+// [3, 4, 5, 9] → "3-5 9"
+function formatIndices(indices) {
+  const parts = []
+  const sorted = [...indices].sort((a, b) => a - b)
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]
+    while (sorted[i + 1] === sorted[i] + 1) i++
+    parts.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`)
+  }
+  return parts.join(" ")
+}
+
+const rows = nodes.map((wnid) => {
+  const parent = keptParent(wnid)
+  return `  ["${wnid}", ${JSON.stringify(nodeName(wnid))}, ${parent ? `"${parent}"` : "null"}, "${formatIndices(nodeClasses.get(wnid) ?? [])}"],`
+})
+
+writeFileSync(
+  join(root, "lib/imagenet-hypernyms.ts"),
+  `// Generated by scripts/generate-imagenet-hierarchy.mjs from WordNet 3.0. Do not edit by hand.
+// Each row is a hypernym synset above the ImageNet classes: its synset id, its first lemma, the synset id
+// of its nearest branching hypernym and the class indices directly below it. Parents come before children.
+export const IMAGENET_HYPERNYMS: readonly (readonly [
+  wnid: string,
+  name: string,
+  parent: string | null,
+  classes: string,
+])[] = [
+${rows.join("\n")}
+]
+`,
+)
+
+console.log(`Wrote ${nodes.length} hypernyms above ${wnids.length} classes`)
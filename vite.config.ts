@@ -1,34 +1,104 @@
 
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import fs from 'fs'
 import { componentTagger } from "lovable-tagger"
+import { imageProxyMiddleware } from './lib/image-proxy'
+import { WASM_BINARIES_PATH } from './lib/backend-info'
+
+// Locally trained models (see train_model.ipynb) live in models/ at the repo root.
+// The dev server serves them directly; production builds get a copy under dist/models.
+function copyLocalModels(): Plugin {
+  return {
+    name: 'copy-local-models',
+    apply: 'build',
+    closeBundle() {
+      const source = path.resolve(__dirname, 'models')
+      if (fs.existsSync(source)) {
+        fs.cpSync(source, path.resolve(__dirname, 'dist/models'), { recursive: true })
+      }
+    },
+  }
+}
+
+// The wasm backend's binaries, served from the app itself so it works offline and under a strict CSP.
+// The dev server reads them from node_modules; production builds get a copy under dist.
+function wasmBinaries(): Plugin {
+  const source = path.resolve(__dirname, 'node_modules/@tensorflow/tfjs-backend-wasm/dist')
+  return {
+    name: 'wasm-binaries',
+    configureServer(server) {
+      server.middlewares.use(WASM_BINARIES_PATH, (request, response, next) => {
+        const file = path.join(source, path.basename(request.url?.split('?')[0] || ''))
+        if (!file.endsWith('.wasm') || !fs.existsSync(file)) {
+          next()
+          return
+        }
+        response.setHeader('Content-Type', 'application/wasm')
+        fs.createReadStream(file).pipe(response)
+      })
+    },
+    generateBundle() {
+      for (const file of fs.readdirSync(source).filter((name) => name.endsWith('.wasm'))) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${WASM_BINARIES_PATH.slice(1)}${file}`,
+          source: fs.readFileSync(path.join(source, file)),
+        })
+      }
+    },
+  }
+}
+
+// The wasm backend only runs multithreaded when the page is cross-origin isolated, which SharedArrayBuffer
+// requires. "credentialless" keeps cross-origin model and image downloads working without CORP headers.
+const crossOriginIsolation = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+}
+
+// Same-origin route for images pasted or dropped by URL, so their pixels can be read from a canvas
+function imageProxy(): Plugin {
+  return {
+    name: 'image-proxy',
+    configureServer(server) {
+      server.middlewares.use(imageProxyMiddleware)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(imageProxyMiddleware)
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
+    copyLocalModels(),
+    wasmBinaries(),
+    imageProxy(),
     mode === 'development' && componentTagger(),
   ].filter(Boolean),
   server: {
     host: "::",
-    port: 8080
+    port: 8080,
+    headers: crossOriginIsolation,
+  },
+  preview: {
+    headers: crossOriginIsolation,
   },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // The inference worker (lib/inference.worker.ts) is an ES module worker, and the only code that loads
+  // TensorFlow.js; the main bundle doesn't include it
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     include: ['@tensorflow/tfjs'],
   },
-  build: {
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          'tensorflow': ['@tensorflow/tfjs'],
-        },
-      },
-    },
-  },
 }))